@@ -4,11 +4,15 @@
 import {
   Array,
   Boolean,
+  Dictionary,
+  Literal,
   Number,
   Partial,
   Record,
   Static,
   String,
+  Union,
+  Unknown,
 } from "https://stupid-extensions.com/denopkg.com/Liamolucko/runtypes@export-type/src/index.ts";
 
 export const LegacyActionsError = Record({
@@ -55,6 +59,19 @@ export type ActionsRevisionWithContent = Static<
   typeof ActionsRevisionWithContent
 >;
 
+export const ActionsSlot = Record({
+  contentmodel: String,
+  contentformat: String,
+  content: String,
+});
+export type ActionsSlot = Static<typeof ActionsSlot>;
+
+export const ActionsRevisionWithSlots = Record({
+  revid: Number,
+  slots: Dictionary(ActionsSlot, "string"),
+});
+export type ActionsRevisionWithSlots = Static<typeof ActionsRevisionWithSlots>;
+
 export const ActionsPage = Record({
   pageid: Number,
   title: String,
@@ -69,27 +86,72 @@ export type ActionsPageWithContent = Static<typeof ActionsPageWithContent>;
 
 export const ActionsPageWithImages = ActionsPage.And(Record({
   images: Array(Record({ title: String })),
-  imageinfo: Array(
-    Record({
-      canonicaltitle: String,
-      timestamp: String,
-      user: String,
-      userid: Number,
-      size: Number,
-      width: Number,
-      height: Number,
-      url: String,
-      descriptionurl: String,
-      mediatype: String,
-    }).And(Partial({
-      duration: Number,
-    })),
+}));
+export type ActionsPageWithImages = Static<typeof ActionsPageWithImages>;
+
+export const ActionsThumbnail = Record({
+  source: String,
+  width: Number,
+  height: Number,
+});
+export type ActionsThumbnail = Static<typeof ActionsThumbnail>;
+
+export const ActionsPageWithDetails = ActionsPage.And(Partial({
+  pageprops: Partial({
+    "wikibase-shortdesc": String,
+  }),
+  thumbnail: ActionsThumbnail,
+}));
+export type ActionsPageWithDetails = Static<typeof ActionsPageWithDetails>;
+
+export const ActionsSearchResult = Record({
+  ns: Number,
+  title: String,
+  pageid: Number,
+  snippet: String,
+});
+export type ActionsSearchResult = Static<typeof ActionsSearchResult>;
+
+export const ActionsImageInfo = Record({
+  timestamp: String,
+  user: String,
+  userid: Number,
+  size: Number,
+  width: Number,
+  height: Number,
+  url: String,
+  descriptionurl: String,
+  mediatype: Union(
+    Literal("BITMAP"),
+    Literal("DRAWING"),
+    Literal("AUDIO"),
+    Literal("VIDEO"),
+    Literal("MULTIMEDIA"),
+    Literal("UNKNOWN"),
+    Literal("OFFICE"),
+    Literal("TEXT"),
+    Literal("EXECUTABLE"),
+    Literal("ARCHIVE"),
+    Literal("3D"),
   ),
-  thumbnail: Record({ source: String, width: Number, height: Number }),
-  original: Record({ source: String, width: Number, height: Number }),
+}).And(Partial({
+  canonicaltitle: String,
+  duration: Number,
+  // These are only there if `iiurlwidth` or `iiurlheight` was passed and the file can be scaled
+  thumburl: String,
+  thumbwidth: Number,
+  thumbheight: Number,
+}));
+export type ActionsImageInfo = Static<typeof ActionsImageInfo>;
+
+export const ActionsPageWithImageInfo = ActionsPage.And(Record({
+  imageinfo: Array(ActionsImageInfo),
+})).And(Partial({
+  thumbnail: ActionsThumbnail,
+  original: ActionsThumbnail,
   pageimage: String,
 }));
-export type ActionsPageWithImages = Static<typeof ActionsPageWithImages>;
+export type ActionsPageWithImageInfo = Static<typeof ActionsPageWithImageInfo>;
 
 export const ActionsPageWithRevisions = ActionsPage.And(Record({
   revisions: Array(ActionsRevision),
@@ -102,15 +164,57 @@ export const ActionsPageWithContributors = Record({
 });
 export type ActionsPageWithContributors = Static<typeof ActionsPageWithContributors>;
 
+export const ActionsLinkedPage = Record({
+  ns: Number,
+  title: String,
+});
+export type ActionsLinkedPage = Static<typeof ActionsLinkedPage>;
+
+export const ActionsExternalLink = Record({
+  url: String,
+});
+export type ActionsExternalLink = Static<typeof ActionsExternalLink>;
+
+export const ActionsMissingPage = Record({
+  title: String,
+  missing: Literal(true),
+});
+export type ActionsMissingPage = Static<typeof ActionsMissingPage>;
+
+export const ActionsInvalidPage = Record({
+  title: String,
+  invalid: Literal(true),
+}).And(Partial({
+  invalidreason: String,
+}));
+export type ActionsInvalidPage = Static<typeof ActionsInvalidPage>;
+
+export const QueryRevisionSlotsResponse = Record({
+  // If the revision doesn't exist, there aren't any pages
+  query: Partial({
+    pages: Array(ActionsPage.And(Record({
+      revisions: Array(ActionsRevisionWithSlots),
+    }))),
+  }),
+});
+export type QueryRevisionSlotsResponse = Static<
+  typeof QueryRevisionSlotsResponse
+>;
+
 export const QueryPageResponse = Record({
   query: Record({
-    pages: Array(ActionsPageWithContent),
+    // These are checked one at a time, so that one bad page doesn't fail the whole batch
+    pages: Array(Dictionary(Unknown, "string")),
     rightsinfo: Record({
       url: String,
       text: String,
     }),
-  }),
-});
+  }).And(Partial({
+    normalized: Array(Record({ from: String, to: String })),
+  })),
+}).And(Partial({
+  continue: Dictionary(String, "string"),
+}));
 export type QueryPageResponse = Static<typeof QueryPageResponse>;
 
 export const QueryImagesResponse = Record({
@@ -120,6 +224,101 @@ export const QueryImagesResponse = Record({
 });
 export type QueryImagesResponse = Static<typeof QueryImagesResponse>;
 
+export const QuerySearchResponse = Record({
+  query: Record({
+    search: Array(ActionsSearchResult),
+  }).And(Partial({
+    // This is missing when nothing matches
+    pages: Array(ActionsPageWithDetails),
+  })),
+});
+export type QuerySearchResponse = Static<typeof QuerySearchResponse>;
+
+export const QueryPrefixSearchResponse = Partial({
+  // The whole query is missing when nothing matches
+  query: Record({
+    pages: Array(ActionsPageWithDetails.And(Record({ index: Number }))),
+  }),
+});
+export type QueryPrefixSearchResponse = Static<
+  typeof QueryPrefixSearchResponse
+>;
+
+export const QueryImageInfoResponse = Record({
+  query: Record({
+    pages: Array(ActionsPageWithImageInfo.Or(ActionsMissingPage)),
+  }),
+});
+export type QueryImageInfoResponse = Static<typeof QueryImageInfoResponse>;
+
+export const ActionsLanglink = Record({
+  lang: String,
+  title: String,
+  autonym: String,
+  langname: String,
+  url: String,
+});
+export type ActionsLanglink = Static<typeof ActionsLanglink>;
+
+export const QueryInterwikiMapResponse = Record({
+  query: Record({
+    interwikimap: Array(
+      Record({
+        prefix: String,
+        url: String,
+      }).And(Partial({
+        local: Boolean,
+        language: String,
+        api: String,
+      })),
+    ),
+  }),
+});
+export type QueryInterwikiMapResponse = Static<
+  typeof QueryInterwikiMapResponse
+>;
+
+export const QueryNamespacesResponse = Record({
+  query: Record({
+    namespaces: Dictionary(
+      Record({
+        id: Number,
+        name: String,
+        case: Union(Literal("first-letter"), Literal("case-sensitive")),
+        subpages: Boolean,
+      }).And(Partial({
+        // The main namespace doesn't have this
+        canonical: String,
+      })),
+      "string",
+    ),
+    namespacealiases: Array(Record({ id: Number, alias: String })),
+  }),
+});
+export type QueryNamespacesResponse = Static<typeof QueryNamespacesResponse>;
+
+export const QueryTokensResponse = Record({
+  query: Record({
+    // Only the types of token which were asked for are here
+    tokens: Dictionary(String, "string"),
+  }),
+});
+export type QueryTokensResponse = Static<typeof QueryTokensResponse>;
+
+export const QueryUserInfoResponse = Record({
+  query: Record({
+    userinfo: Record({
+      id: Number,
+      name: String,
+    }).And(Partial({
+      anon: Boolean,
+      groups: Array(String),
+      rights: Array(String),
+    })),
+  }),
+});
+export type QueryUserInfoResponse = Static<typeof QueryUserInfoResponse>;
+
 export const QueryHistoryResponse = Record({
   query: Record({
     pages: Array(ActionsPageWithContributors),
@@ -131,37 +330,169 @@ export const QueryHistoryResponse = Record({
 export type QueryHistoryResponse = Static<typeof QueryHistoryResponse>;
 
 export const QueryRevisionResponse = Record({
-  query: Record({
-    pages: Array(ActionsPageWithRevisions),
+  // If none of the revisions exist, there aren't any pages
+  query: Partial({
+    pages: Array(ActionsPageWithRevisions.Or(ActionsMissingPage)),
   }),
-});
+}).And(Partial({
+  continue: Record({
+    rvcontinue: String,
+  }),
+}));
 export type QueryRevisionResponse = Static<typeof QueryRevisionResponse>;
 
-export const QueryRevisionSizeResponse = Record({
+export const QueryListResponse = Partial({
+  // Every module puts its results somewhere different, so they're checked separately
+  query: Dictionary(Unknown, "string"),
+  continue: Dictionary(String, "string"),
+});
+export type QueryListResponse = Static<typeof QueryListResponse>;
+
+export const ActionsQueryPages = Record({
+  pages: Array(Dictionary(Unknown, "string")),
+});
+export type ActionsQueryPages = Static<typeof ActionsQueryPages>;
+
+export const QueryContributorsResponse = Record({
   query: Record({
-    pages: Array(Record({
-      revisions: Array(Record({
-        size: Number,
-      })),
+    pages: Array(Partial({
+      // This is missing if nobody matches
+      contributors: Array(Record({ userid: Number, name: String })),
     })),
   }),
 });
-export type QueryRevisionSizeResponse = Static<typeof QueryRevisionSizeResponse>;
+export type QueryContributorsResponse = Static<
+  typeof QueryContributorsResponse
+>;
+
+// With `errorformat` set, messages come back as objects rather than strings.
+const ActionsMessage = String.Or(Record({ text: String }));
+
+export const LoginResponse = Record({
+  login: Record({
+    result: String,
+  }).And(Partial({
+    reason: ActionsMessage,
+    lguserid: Number,
+    lgusername: String,
+  })),
+});
+export type LoginResponse = Static<typeof LoginResponse>;
+
+export const ClientLoginResponse = Record({
+  clientlogin: Record({
+    status: String,
+  }).And(Partial({
+    message: ActionsMessage,
+    messagecode: String,
+    username: String,
+  })),
+});
+export type ClientLoginResponse = Static<typeof ClientLoginResponse>;
 
 export const ParseHtmlResponse = Record({
   parse: Record({
+    title: String,
+    pageid: Number,
+    revid: Number,
     text: String,
   }),
 });
 export type ParseHtmlResponse = Static<typeof ParseHtmlResponse>;
 
-export const ParseLanglinksResponse = Record({
+export const ActionsEditSuccess = Record({
+  result: Literal("Success"),
+  pageid: Number,
+  title: String,
+}).And(Partial({
+  oldrevid: Number,
+  newrevid: Number,
+  newtimestamp: String,
+  nochange: Boolean,
+}));
+export type ActionsEditSuccess = Static<typeof ActionsEditSuccess>;
+
+export const ActionsEditFailure = Record({
+  result: String,
+}).And(Partial({
+  captcha: Record({
+    type: String,
+    id: String.Or(Number),
+  }).And(Partial({
+    mime: String,
+    url: String,
+    question: String,
+  })),
+}));
+export type ActionsEditFailure = Static<typeof ActionsEditFailure>;
+
+export const EditResponse = Record({
+  edit: ActionsEditSuccess.Or(ActionsEditFailure),
+});
+export type EditResponse = Static<typeof EditResponse>;
+
+export const RollbackResponse = Record({
+  rollback: Record({
+    title: String,
+    pageid: Number,
+    summary: String,
+    revid: Number,
+    old_revid: Number,
+    last_revid: Number,
+  }),
+});
+export type RollbackResponse = Static<typeof RollbackResponse>;
+
+export const MoveResponse = Record({
+  move: Record({
+    from: String,
+    to: String,
+    reason: String,
+    redirectcreated: Boolean,
+    moveoverredirect: Boolean,
+  }).And(Partial({
+    talkfrom: String,
+    talkto: String,
+    // Subpages which couldn't be moved have errors instead
+    subpages: Array(Partial({ from: String, to: String })),
+  })),
+});
+export type MoveResponse = Static<typeof MoveResponse>;
+
+export const DeleteResponse = Record({
+  delete: Record({
+    title: String,
+    reason: String,
+    logid: Number,
+  }),
+});
+export type DeleteResponse = Static<typeof DeleteResponse>;
+
+export const UndeleteResponse = Record({
+  undelete: Record({
+    title: String,
+    reason: String,
+    revisions: Number,
+    fileversions: Number,
+  }),
+});
+export type UndeleteResponse = Static<typeof UndeleteResponse>;
+
+export const ProtectResponse = Record({
+  protect: Record({
+    title: String,
+    reason: String,
+    // Each of these has the action as the key of its level, e.g. `{ edit: "sysop", expiry: "infinite" }`
+    protections: Array(Dictionary(String, "string")),
+  }).And(Partial({
+    cascade: Boolean,
+  })),
+});
+export type ProtectResponse = Static<typeof ProtectResponse>;
+
+export const ParseTextResponse = Record({
   parse: Record({
-    langlinks: Array(Record({
-      lang: String,
-      autonym: String,
-      title: String,
-    })),
+    text: String,
   }),
 });
-export type ParseLanglinksResponse = Static<typeof ParseLanglinksResponse>;
+export type ParseTextResponse = Static<typeof ParseTextResponse>;
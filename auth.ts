@@ -0,0 +1,156 @@
+import { OAuthError } from "./errors.ts";
+import { AccessToken, OAuthErrorResponse } from "./rest-types.ts";
+import type { Wiki } from "./wiki.ts";
+
+/** Something which can get OAuth access tokens for a wiki. */
+export interface AuthProvider {
+  /** Returns the access token to send as a bearer token. */
+  getToken(wiki: Wiki): string | Promise<string>;
+
+  /**
+   * Gets a new access token after the wiki rejected the current one.
+   * @param token The token that was rejected
+   * @returns Whether there's a new token worth trying again with
+   */
+  refresh?(wiki: Wiki, token: string): Promise<boolean>;
+}
+
+/** An access token which never changes, like the ones for owner-only consumers. */
+export class StaticToken implements AuthProvider {
+  constructor(public token: string) {}
+
+  getToken() {
+    return this.token;
+  }
+}
+
+/**
+ * Gets access tokens from the wiki's OAuth 2.0 endpoint, using either the client credentials grant or the refresh token grant.
+ *
+ * If a refresh token is given, it uses that; otherwise it uses the client credentials, which only works for owner-only consumers.
+ * Tokens are refreshed automatically when they expire, or when the wiki rejects them.
+ */
+export class OAuth2 implements AuthProvider {
+  clientId: string;
+  #clientSecret?: string;
+  #refreshToken?: string;
+  #tokenUrl?: URL;
+
+  #token?: Promise<string>;
+  #expires = 0;
+
+  /** Whether `#token` is still being fetched, in which case everything waits for it rather than starting another grant */
+  #pending = false;
+
+  /** The last access token that was fetched, so a token that's already been replaced isn't refreshed again */
+  #current?: string;
+
+  /** The scopes (grants) which the current access token has. This is empty until the first token has been fetched. */
+  scopes: string[] = [];
+
+  constructor(options: {
+    /** The consumer's client application key */
+    clientId: string;
+
+    /** The consumer's client application secret, which non-confidential clients don't have */
+    clientSecret?: string;
+
+    /** A refresh token from the authorization code flow */
+    refreshToken?: string;
+
+    /** The URL of the token endpoint. Defaults to the wiki's own `rest.php/oauth2/access_token`. */
+    tokenUrl?: string | URL;
+  }) {
+    this.clientId = options.clientId;
+    this.#clientSecret = options.clientSecret;
+    this.#refreshToken = options.refreshToken;
+    if (typeof options.tokenUrl !== "undefined") {
+      this.#tokenUrl = new URL(options.tokenUrl);
+    }
+  }
+
+  getToken(wiki: Wiki): Promise<string> {
+    if (
+      typeof this.#token === "undefined" ||
+      (!this.#pending && Date.now() >= this.#expires)
+    ) {
+      this.#token = this.fetchToken(wiki);
+    }
+
+    return this.#token;
+  }
+
+  async refresh(wiki: Wiki, token: string): Promise<boolean> {
+    // If another request already got it refreshed, its new token can be used instead
+    if (!this.#pending && token === this.#current) {
+      this.#token = this.fetchToken(wiki);
+    }
+
+    await this.getToken(wiki);
+    return true;
+  }
+
+  private async fetchToken(wiki: Wiki): Promise<string> {
+    this.#pending = true;
+
+    const params: Record<string, string> =
+      typeof this.#refreshToken !== "undefined"
+        ? { grant_type: "refresh_token", refresh_token: this.#refreshToken }
+        : { grant_type: "client_credentials" };
+
+    params.client_id = this.clientId;
+    if (typeof this.#clientSecret !== "undefined") {
+      params.client_secret = this.#clientSecret;
+    }
+
+    // `rest.php` is always next to `api.php`
+    const url = this.#tokenUrl ??
+      new URL("rest.php/oauth2/access_token", wiki.actionApiUrl);
+
+    try {
+      const response = await wiki.fetch(url, {
+        method: "POST",
+        body: new URLSearchParams(params),
+      }).then((response) => response.json());
+
+      if (OAuthErrorResponse.guard(response)) {
+        throw new OAuthError(
+          response.error_description ?? response.message ?? response.error,
+          response.error,
+        );
+      }
+
+      const token = AccessToken.check(response);
+
+      // Refresh tokens can only be used once, so the new one has to replace it
+      if (typeof token.refresh_token !== "undefined") {
+        this.#refreshToken = token.refresh_token;
+      }
+
+      // Leave a bit of leeway so it doesn't expire while a request is being made
+      this.#expires = Date.now() + (token.expires_in - 30) * 1000;
+      this.scopes = token.scope?.split(" ") ?? jwtScopes(token.access_token);
+      this.#current = token.access_token;
+
+      return token.access_token;
+    } catch (error) {
+      // Don't keep trying to use a token that doesn't exist
+      this.#token = undefined;
+      throw error;
+    } finally {
+      this.#pending = false;
+    }
+  }
+}
+
+/** MediaWiki doesn't always include the `scope` in the response, but its access tokens are JWTs with the scopes inside. */
+function jwtScopes(token: string): string[] {
+  try {
+    const payload = JSON.parse(
+      atob(token.split(".")[1].replaceAll("-", "+").replaceAll("_", "/")),
+    );
+    return Array.isArray(payload.scopes) ? payload.scopes : [];
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Coalesces lots of separate requests for single things into a few requests for many things, like a [DataLoader](https://github.com/graphql/dataloader).
+ *
+ * Every key asked for in the same tick gets loaded together, in batches of up to `maxBatchSize`.
+ */
+export class Batcher<K, V> {
+  #queue = new Map<
+    K,
+    { resolve: (value: V) => void; reject: (reason: unknown) => void }[]
+  >();
+  #scheduled = false;
+
+  /**
+   * @param load Loads a batch of keys. Any keys missing from the map it returns are rejected with `missing`, and any keys it maps to an `Error` are rejected with that.
+   */
+  constructor(
+    private load: (keys: K[]) => Promise<Map<K, V | Error>>,
+    private options: {
+      /** The most keys to load at once. Default: 50, which is the limit for most Action API parameters. */
+      maxBatchSize?: number;
+
+      /** Creates the error for a key which couldn't be found. */
+      missing?: (key: K) => Error;
+    } = {},
+  ) {}
+
+  /** Loads a single key, along with everything else that's asked for at the same time. */
+  get(key: K): Promise<V> {
+    return new Promise((resolve, reject) => {
+      const callbacks = this.#queue.get(key) ?? [];
+      callbacks.push({ resolve, reject });
+      this.#queue.set(key, callbacks);
+
+      if (!this.#scheduled) {
+        this.#scheduled = true;
+        // Waiting for a macrotask lets anything waiting on other promises get added too
+        setTimeout(() => this.flush(), 0);
+      }
+    });
+  }
+
+  private flush() {
+    const queue = this.#queue;
+    this.#queue = new Map();
+    this.#scheduled = false;
+
+    const keys = [...queue.keys()];
+    const size = this.options.maxBatchSize ?? 50;
+
+    for (let i = 0; i < keys.length; i += size) {
+      const batch = keys.slice(i, i + size);
+
+      this.load(batch).then(
+        (values) => {
+          for (const key of batch) {
+            for (const { resolve, reject } of queue.get(key)!) {
+              const value = values.get(key);
+
+              if (value instanceof Error) {
+                reject(value);
+              } else if (values.has(key)) {
+                resolve(value!);
+              } else {
+                reject(
+                  this.options.missing?.(key) ??
+                    new Error(`Couldn't find ${key}`),
+                );
+              }
+            }
+          }
+        },
+        (error) => {
+          for (const key of batch) {
+            for (const { reject } of queue.get(key)!) {
+              reject(error);
+            }
+          }
+        },
+      );
+    }
+  }
+}
+
+export default Batcher;
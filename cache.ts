@@ -0,0 +1,226 @@
+/** A response stored in a cache. */
+export interface CacheEntry {
+  value: unknown;
+
+  /** When the entry expires, in milliseconds since the epoch */
+  expires: number;
+
+  /** When the entry was cached, in milliseconds since the epoch */
+  cachedAt: number;
+
+  /** The titles of the pages the response has information about, so it can be thrown out when they change */
+  pages?: string[];
+
+  /** The API URL of the wiki those pages are on */
+  site?: string;
+}
+
+/** How long to cache things which hardly ever change, like old revisions and the interwiki map, in milliseconds. */
+export const longTtl = 24 * 60 * 60 * 1000;
+
+/** Somewhere to keep cached responses. */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/** Keeps cached responses in memory, throwing out the least recently used ones once it's full. */
+export class MemoryStore implements CacheStore {
+  #entries = new Map<string, CacheEntry>();
+
+  /** @param size The most entries to keep */
+  constructor(public size = 1000) {}
+
+  get(key: string) {
+    const entry = this.#entries.get(key);
+
+    if (typeof entry !== "undefined") {
+      // Move it to the end, since it's now the most recently used
+      this.#entries.delete(key);
+      this.#entries.set(key, entry);
+    }
+
+    // Copy it so that the cached one can't be changed by accident
+    return Promise.resolve(entry && structuredClone(entry));
+  }
+
+  set(key: string, entry: CacheEntry) {
+    this.#entries.delete(key);
+    this.#entries.set(key, structuredClone(entry));
+
+    // Maps iterate in insertion order, so the first one is the least recently used
+    for (const key of this.#entries.keys()) {
+      if (this.#entries.size <= this.size) break;
+      this.#entries.delete(key);
+    }
+
+    return Promise.resolve();
+  }
+
+  delete(key: string) {
+    this.#entries.delete(key);
+    return Promise.resolve();
+  }
+}
+
+/** Keeps cached responses as JSON files in a directory, so that they're kept between runs. */
+export class DirectoryStore implements CacheStore {
+  constructor(public path: string) {}
+
+  async get(key: string) {
+    try {
+      return JSON.parse(await Deno.readTextFile(await this.file(key)));
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return undefined;
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  async set(key: string, entry: CacheEntry) {
+    await Deno.mkdir(this.path, { recursive: true });
+    await Deno.writeTextFile(await this.file(key), JSON.stringify(entry));
+  }
+
+  async delete(key: string) {
+    try {
+      await Deno.remove(await this.file(key));
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+    }
+  }
+
+  /** Keys can have any characters in them, so the files are named after their hashes instead. */
+  private async file(key: string) {
+    const hash = await crypto.subtle.digest(
+      "SHA-256",
+      new TextEncoder().encode(key),
+    );
+
+    const name = [...new Uint8Array(hash)]
+      .map((byte) => byte.toString(16).padStart(2, "0"))
+      .join("");
+
+    return `${this.path}/${name}.json`;
+  }
+}
+
+/** The key of the record of when a page last changed. Pages on different wikis can have the same title, so it includes the wiki's API URL. */
+function pageKey(site: string, title: string) {
+  return `page:${site} ${title}`;
+}
+
+/**
+ * A cache for responses from wikis. One cache can be shared between several wikis, since pages are kept apart by their wiki's API URL.
+ *
+ * As well as expiring after their TTL, responses are thrown out once the pages they're about are known to have changed,
+ * either because they were edited through the same wiki object or because a newer revision was seen.
+ */
+export class Cache {
+  /**
+   * @param store Where to keep the responses
+   * @param ttl How long responses are kept by default, in milliseconds
+   */
+  constructor(
+    public store: CacheStore = new MemoryStore(),
+    public ttl = 60 * 1000,
+  ) {}
+
+  /** Returns a cached value, or `undefined` if there isn't one or it's out of date. */
+  async get(key: string): Promise<unknown> {
+    const entry = await this.store.get(key);
+    if (typeof entry === "undefined") return undefined;
+
+    if (entry.expires <= Date.now()) {
+      await this.store.delete(key);
+      return undefined;
+    }
+
+    for (const title of entry.pages ?? []) {
+      const page = await this.page(entry.site ?? "", title);
+      if (typeof page !== "undefined" && entry.cachedAt < page.changedAt) {
+        await this.store.delete(key);
+        return undefined;
+      }
+    }
+
+    return entry.value;
+  }
+
+  /**
+   * Caches a value.
+   * @param site The API URL of the wiki that `pages` are on
+   */
+  set(
+    key: string,
+    value: unknown,
+    { ttl = this.ttl, site, pages }: {
+      ttl?: number;
+      site?: string;
+      pages?: string[];
+    } = {},
+  ) {
+    const now = Date.now();
+
+    return this.store.set(key, {
+      value,
+      expires: now + ttl,
+      cachedAt: now,
+      pages,
+      site,
+    });
+  }
+
+  /**
+   * Throws out everything cached about a page.
+   * @param site The API URL of the wiki the page is on
+   */
+  async invalidate(site: string, title: string) {
+    const page = await this.page(site, title);
+    await this.setPage(site, title, {
+      latest: page?.latest,
+      changedAt: Date.now(),
+    });
+  }
+
+  /**
+   * Records that a page's latest revision has the given ID.
+   * If it's newer than the last one seen, everything cached about the page is thrown out.
+   */
+  async observeRevision(site: string, title: string, id: number) {
+    const page = await this.page(site, title);
+
+    if (typeof page === "undefined") {
+      // There's nothing to compare it to, so whatever's cached can stay
+      await this.setPage(site, title, { latest: id, changedAt: 0 });
+    } else if (typeof page.latest === "undefined" || id > page.latest) {
+      await this.setPage(site, title, { latest: id, changedAt: Date.now() });
+    }
+  }
+
+  private async page(
+    site: string,
+    title: string,
+  ): Promise<{ latest?: number; changedAt: number } | undefined> {
+    const entry = await this.store.get(pageKey(site, title));
+    return entry?.value as { latest?: number; changedAt: number } | undefined;
+  }
+
+  private setPage(
+    site: string,
+    title: string,
+    page: { latest?: number; changedAt: number },
+  ) {
+    return this.store.set(pageKey(site, title), {
+      value: page,
+      // This needs to outlive anything it applies to, and JSON doesn't have Infinity
+      expires: Number.MAX_SAFE_INTEGER,
+      cachedAt: Date.now(),
+    });
+  }
+}
+
+export default Cache;
@@ -0,0 +1,66 @@
+/**
+ * A very simple cookie jar, for keeping track of the session cookies from a single wiki.
+ *
+ * Since it's only used for one wiki, it doesn't bother with domains or paths.
+ */
+export class CookieJar {
+  #cookies = new Map<string, { value: string; expires?: number }>();
+
+  /** Stores the cookies from a response's `Set-Cookie` headers. */
+  store(headers: Headers) {
+    for (const cookie of headers.getSetCookie()) {
+      const [pair, ...attributes] = cookie.split(";");
+      const index = pair.indexOf("=");
+      if (index === -1) continue;
+
+      const name = pair.slice(0, index).trim();
+      const value = pair.slice(index + 1).trim();
+
+      let maxAge: number | undefined;
+      let expires: number | undefined;
+      for (const attribute of attributes) {
+        const [key, ...rest] = attribute.split("=");
+        switch (key.trim().toLowerCase()) {
+          case "max-age":
+            maxAge = Date.now() + Number(rest.join("=")) * 1000;
+            break;
+          case "expires":
+            expires = Date.parse(rest.join("="));
+            break;
+        }
+      }
+
+      // Max-Age takes precedence over Expires
+      expires = maxAge ?? expires;
+
+      if (typeof expires !== "undefined" && expires <= Date.now()) {
+        this.#cookies.delete(name);
+      } else {
+        this.#cookies.set(name, { value, expires });
+      }
+    }
+  }
+
+  /** Returns the value for a `Cookie` header, or `undefined` if there aren't any cookies. */
+  header(): string | undefined {
+    const now = Date.now();
+    const cookies = [];
+
+    for (const [name, { value, expires }] of this.#cookies) {
+      if (typeof expires !== "undefined" && expires <= now) {
+        this.#cookies.delete(name);
+      } else {
+        cookies.push(`${name}=${value}`);
+      }
+    }
+
+    return cookies.length > 0 ? cookies.join("; ") : undefined;
+  }
+
+  /** Removes all of the cookies. */
+  clear() {
+    this.#cookies.clear();
+  }
+}
+
+export default CookieJar;
@@ -0,0 +1,197 @@
+import { ActionsError, LegacyActionsError } from "./actions-types.ts";
+import { ApiError } from "./rest-types.ts";
+
+/** The error codes for pages, revisions and files which don't exist. */
+const notFoundCodes = [
+  "missingtitle",
+  "nosuchpageid",
+  "nosuchrevid",
+  "missingfile",
+  "rest-nonexistent-title",
+  "rest-nonexistent-revision",
+];
+
+/** The error codes for edit conflicts, and pages which already exist when they shouldn't. */
+const conflictCodes = ["editconflict", "articleexists", "pagedeleted"];
+
+/** The error codes for things the current user isn't allowed to do. */
+const permissionDeniedCodes = [
+  "permissiondenied",
+  "protectedpage",
+  "cascadeprotected",
+  "protectednamespace",
+  "protectednamespace-interface",
+  "protectedtitle",
+  "cantcreate",
+  "cantcreate-anon",
+  "cantmove",
+  "cantmove-anon",
+  "cantmovefile",
+  "immobilenamespace",
+  "noedit",
+  "noedit-anon",
+  "readapidenied",
+  "writeapidenied",
+  "blocked",
+  "autoblocked",
+  "assertuserfailed",
+  "assertbotfailed",
+  "assertnameduserfailed",
+];
+
+/** The error codes for requests which should be tried again later. */
+const rateLimitCodes = ["ratelimited", "maxlag"];
+
+/** The error codes for invalid or expired CSRF tokens. */
+const badTokenCodes = ["badtoken", "notoken", "rest-badtoken"];
+
+/** An error which the client noticed by itself, like a page missing from a response, rather than one the API returned. */
+interface ClientError {
+  code: string;
+  text: string;
+}
+
+/** An error returned by a wiki, from either the REST API or the Action API. */
+export class MediaWikiError extends Error {
+  /** The error code. For the Action API, this is the code of the first error; for the REST API, it's the action module's error code or the error key, if either was returned. */
+  code?: string;
+
+  /** The HTTP status code, if the REST API returned one. */
+  status?: number;
+
+  /** Every error which was returned, including the first one. The REST API only ever returns one. */
+  errors: { code?: string; text: string }[];
+
+  /** The raw error response from the API. This is `undefined` if the client raised the error itself. */
+  response?: ApiError | ActionsError | LegacyActionsError;
+
+  constructor(
+    response: ApiError | ActionsError | LegacyActionsError | ClientError,
+  ) {
+    let errors: { code?: string; text: string }[];
+    let status: number | undefined;
+
+    if (ApiError.guard(response)) {
+      status = response.httpCode;
+      errors = [{
+        code: response.actionModuleErrorCode ?? response.errorKey,
+        text: response.messageTranslations?.["en"] ??
+          response.message ??
+          response.httpReason,
+      }];
+    } else if (ActionsError.guard(response)) {
+      errors = response.errors.map(({ code, text }) => ({ code, text }));
+    } else if (LegacyActionsError.guard(response)) {
+      errors = [{ code: response.error.code, text: response.error.info }];
+    } else {
+      errors = [{ code: response.code, text: response.text }];
+    }
+
+    super(errors[0]?.text);
+
+    // This makes subclasses show up with their own names
+    this.name = new.target.name;
+
+    this.code = errors[0]?.code;
+    this.status = status;
+    this.errors = errors;
+    if (!("text" in response)) this.response = response;
+  }
+}
+
+/** The requested page, revision or file doesn't exist. */
+export class NotFoundError extends MediaWikiError {}
+
+/** An edit conflicted with another edit, or a page which was meant to be created already exists. */
+export class ConflictError extends MediaWikiError {}
+
+/** The current user doesn't have permission to do this, whether because of their rights, protection or a block. */
+export class PermissionDeniedError extends MediaWikiError {}
+
+/** The request was rejected because of rate limiting or replication lag, and should be tried again later. */
+export class RateLimitError extends MediaWikiError {}
+
+/** The CSRF token was missing, invalid or expired. */
+export class BadTokenError extends MediaWikiError {}
+
+/** Picks the most specific error class for an error code or HTTP status. */
+function errorClass(code = "", status?: number): typeof MediaWikiError {
+  if (badTokenCodes.includes(code)) {
+    return BadTokenError;
+  } else if (notFoundCodes.includes(code) || status === 404) {
+    return NotFoundError;
+  } else if (conflictCodes.includes(code) || status === 409) {
+    return ConflictError;
+  } else if (
+    permissionDeniedCodes.includes(code) || status === 401 || status === 403
+  ) {
+    return PermissionDeniedError;
+  } else if (rateLimitCodes.includes(code) || status === 429) {
+    return RateLimitError;
+  } else {
+    return MediaWikiError;
+  }
+}
+
+/**
+ * Creates the most specific error class for an error response, so that the same problem throws the same class with both APIs.
+ */
+export function createError(
+  response: ApiError | ActionsError | LegacyActionsError,
+): MediaWikiError {
+  const error = new MediaWikiError(response);
+  const ErrorClass = errorClass(error.code, error.status);
+
+  return ErrorClass === MediaWikiError ? error : new ErrorClass(response);
+}
+
+/**
+ * Creates the error the API would have given for a problem the client noticed by itself, like a page missing from a batch.
+ * @param code The API's error code for the problem, e.g. `missingtitle`
+ */
+export function errorFromCode(code: string, info: string): MediaWikiError {
+  return new (errorClass(code))({ code, text: info });
+}
+
+/** Logging in failed, e.g. because the username or password was wrong. */
+export class LoginError extends Error {
+  constructor(
+    message: string,
+    /** The `result` of `action=login` or the `status` of `action=clientlogin` */
+    public result: string,
+  ) {
+    super(message);
+    this.name = "LoginError";
+  }
+}
+
+/** An edit wasn't saved even though the wiki didn't return an error, e.g. because a CAPTCHA has to be solved first. */
+export class EditError extends Error {
+  constructor(
+    message: string,
+    /** The `result` of `action=edit` */
+    public result: string,
+    /** The CAPTCHA to solve, if that's why the edit wasn't saved. Pass its `id` and the answer as the `captcha` option to try again. */
+    public captcha?: {
+      type: string;
+      id: string;
+      url?: string;
+      question?: string;
+    },
+  ) {
+    super(message);
+    this.name = "EditError";
+  }
+}
+
+/** Getting an OAuth access token failed, e.g. because the client credentials or refresh token were invalid. */
+export class OAuthError extends Error {
+  constructor(
+    message: string,
+    /** The OAuth error code, e.g. `invalid_client` */
+    public code: string,
+  ) {
+    super(message);
+    this.name = "OAuthError";
+  }
+}
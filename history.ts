@@ -1,128 +1,209 @@
-import { QueryHistoryResponse } from "./actions-types.ts";
-import type { History as _History, Revision } from "./rest-types.ts";
+import {
+  ActionsRevision,
+  QueryContributorsResponse,
+  QueryRevisionResponse,
+} from "./actions-types.ts";
+import { History as _History, HistoryCount, Revision } from "./rest-types.ts";
+import { Title, titlePath } from "./title.ts";
+import { errorFromCode } from "./errors.ts";
 import Wiki from "./wiki.ts";
 
+/** The maximum values the REST API will count up to for each type of count. */
+const countLimits = {
+  anonymous: 10000,
+  bot: 10000,
+  editors: 25000,
+  edits: 30000,
+  minor: 1000,
+  reverted: 30000,
+};
+
+/** The change tags the REST API considers to be reverts. */
+const revertTags = ["mw-undo", "mw-rollback", "mw-manual-revert"];
+
+type HistoryFilter = "reverted" | "anonymous" | "bot" | "minor";
+
 /**
- * An iterable of a page's history, from newest to oldest.
+ * Checks whether a revision from the Action API matches a history filter.
+ * @param bots The IDs of the bots who've contributed to the page
+ */
+function matchesFilter(
+  revision: ActionsRevision,
+  filter: HistoryFilter | undefined,
+  bots: number[],
+) {
+  switch (filter) {
+    case "anonymous":
+      return revision.anon ?? false;
+    case "bot":
+      return bots.includes(revision.userid);
+    case "minor":
+      return revision.minor;
+    case "reverted":
+      return revision.tags.some((tag) => revertTags.includes(tag));
+    default:
+      return true;
+  }
+}
+
+/**
+ * An iterable of a page's history, from newest to oldest unless it's been reversed.
  */
 export class History
   implements AsyncIterable<Revision>, PromiseLike<Revision[]> {
-  #filter?: "reverted" | "anonymous" | "bot" | "minor";
+  #filter?: HistoryFilter;
   #from?: number;
   #to?: number;
   #limit = Infinity;
+  #reverse = false;
+
+  protected title: string;
 
   constructor(
     protected wiki: Wiki,
-    protected title: string,
+    title: string | Title,
     options?: {
-      filter?: "reverted" | "anonymous" | "bot" | "minor";
+      filter?: HistoryFilter;
       from?: number;
       to?: number;
       limit?: number;
+      reverse?: boolean;
     },
   ) {
+    this.title = title.toString();
     this.#filter = options?.filter;
     this.#from = options?.from;
     this.#to = options?.to;
     if (typeof options?.limit !== "undefined") {
       this.#limit = options?.limit;
     }
+    this.#reverse = options?.reverse ?? false;
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<Revision> {
+    if (this.#limit <= 0) return;
+
+    const revisions = this.iterate();
+
+    let count = 0;
+    for await (const revision of revisions) {
+      // If it's the first revision of an unfiltered history, it must be the latest one
+      if (
+        count === 0 && !this.#reverse && typeof this.#from === "undefined" &&
+        typeof this.#filter === "undefined"
+      ) {
+        await this.wiki.cache?.observeRevision(
+          this.wiki.apiUrl.href,
+          this.title,
+          revision.id,
+        );
+      }
+
+      yield revision;
+      count++;
+      if (count >= this.#limit) return;
+    }
   }
 
-  async *[Symbol.asyncIterator]() {
+  /** Picks which API to iterate through the history with, ignoring the limit. */
+  private iterate(): AsyncGenerator<Revision, void, undefined> {
     if (this.wiki.polyfilled) {
-      let response: _History = await this.wiki.request({
-        path: `page/${this.title}/history`,
+      return this.iteratePolyfill();
+    } else if (!this.#reverse) {
+      return this.iterateRest();
+    } else if (typeof this.#to !== "undefined") {
+      return this.iterateRestReversed(this.#to);
+    } else {
+      // Without a revision to start from, the REST API would have to go through the whole history before it could go forwards,
+      // so the Action API is used instead, since REST wikis still have one.
+      return this.iteratePolyfill();
+    }
+  }
+
+  /** Iterates through the REST history from newest to oldest, ignoring the limit. */
+  private async *iterateRest(): AsyncGenerator<Revision, void, undefined> {
+    let olderThan = this.#from;
+
+    while (true) {
+      const response = await this.wiki.request({
+        path: `page/${titlePath(this.title)}/history`,
         params: {
           filter: this.#filter,
-          older_than: this.#from,
+          older_than: olderThan,
         },
-      });
-      let count = 0;
-      while (true) {
-        for (const revision of response.revisions) {
-          if (revision.id === this.#to) return;
-          yield revision;
-          count++;
-          if (count >= this.#limit) return;
-        }
-        if (typeof response.older === "undefined") break;
-        response = await fetch(response.older)
-          .then((response) => response.json());
+      }).then(_History.check);
+
+      for (const revision of response.revisions) {
+        if (typeof this.#to !== "undefined" && revision.id <= this.#to) return;
+        yield revision;
       }
-    } else {
-      const params = {
-        action: "query",
-        titles: this.title,
-        prop: "revisions",
-        rvprop: [
-          "ids",
-          "timestamp",
-          "flags",
-          "size",
-          "comment",
-          "user",
-          "userid",
-          "tags",
-        ],
-        rvlimit: this.#limit,
-        rvstartid: this.#from,
-        rvendid: this.#to,
-        rvtag: this.#filter === "reverted" ? "mw-rollback" : undefined,
-      };
-
-      let response = await this.wiki.request({
+
+      if (typeof response.older === "undefined") return;
+      olderThan = Number(
+        new URL(response.older).searchParams.get("older_than"),
+      );
+    }
+  }
+
+  /**
+   * Iterates through the REST history from oldest to newest, ignoring the limit.
+   *
+   * The REST API can only go forwards from a revision we already know about, so this needs to be given one.
+   */
+  private async *iterateRestReversed(
+    to: number,
+  ): AsyncGenerator<Revision, void, undefined> {
+    let newerThan = to;
+
+    while (true) {
+      const response = await this.wiki.request({
+        path: `page/${titlePath(this.title)}/history`,
         params: {
-          ...params,
-          prop: ["revisions", "contributors"],
-          pcgroup: "bot",
-          pclimit: "max", // Hopefully it'll never come across a page with too many bot contributors
+          filter: this.#filter,
+          newer_than: newerThan,
         },
-      }).then(QueryHistoryResponse.check);
-      const contributors = response.query.pages[0].contributors;
-
-      let count = 0;
-      while (true) {
-        for (
-          // Running them concurrently should make it faster, since they all need to fetch a second revision for the delta.
-          const revision of await Promise.all(
-            response.query.pages[0].revisions
-              .filter((revision) => {
-                switch (this.#filter) {
-                  case "anonymous":
-                    return revision.anon ?? false;
-                  case "bot":
-                    // I've only queried bot contributors, so all included contributors must be bots
-                    return contributors.some((user) =>
-                      user.userid === revision.userid
-                    );
-                  case "minor":
-                    return revision.minor;
-                  case "reverted":
-                    return revision.tags.includes("mw-rollback");
-                  default:
-                    return true;
-                }
-              })
-              .map((revision) => this.wiki.convertRevision(revision)),
-          )
-        ) {
-          if (revision.id === this.#to) return;
-          yield revision;
-          count++;
-          if (count >= this.#limit) return;
-        }
-        if (
-          typeof response.continue === "undefined" ||
-          response.continue.rvcontinue === "undefined"
-        ) {
-          break;
+      }).then(_History.check);
+
+      for (
+        const revision of [...response.revisions].sort((a, b) => a.id - b.id)
+      ) {
+        if (typeof this.#from !== "undefined" && revision.id >= this.#from) {
+          return;
         }
-        response = await this.wiki.request({
-          params: { ...params, rvcontinue: response.continue.rvcontinue },
-        });
+        yield revision;
       }
+
+      if (typeof response.newer === "undefined") return;
+      newerThan = Number(
+        new URL(response.newer).searchParams.get("newer_than"),
+      );
+    }
+  }
+
+  /** Iterates through the history using the Action API, ignoring the limit. */
+  private async *iteratePolyfill(): AsyncGenerator<Revision, void, undefined> {
+    const bots = this.#filter === "bot" ? await this.bots() : [];
+
+    for await (
+      const batch of this.revisionsPolyfill({
+        rvdir: this.#reverse ? "newer" : "older",
+        rvstartid: this.#reverse ? this.#to : this.#from,
+        rvendid: this.#reverse ? this.#from : this.#to,
+        // The bounds are inclusive in the Action API, so there can be 2 extra revisions.
+        // If it's filtered, we'll probably need more than that, but it'll just have to continue.
+        rvlimit: this.#limit < 498 ? this.#limit + 2 : "max",
+      })
+    ) {
+      const revisions = batch.filter((revision) =>
+        revision.revid !== this.#from && revision.revid !== this.#to &&
+        matchesFilter(revision, this.#filter, bots)
+      );
+
+      // Running them concurrently should make it faster, since they all need to fetch a second revision for the delta.
+      const converted = await Promise.all(
+        revisions.map((revision) => this.wiki.convertRevision(revision)),
+      );
+      for (const revision of converted) yield revision;
     }
   }
 
@@ -143,49 +224,182 @@ export class History
     return arr;
   }
 
+  /** Only includes revisions older than the given revision. */
   olderThan(id: number) {
-    return new History(
-      this.wiki,
-      this.title,
-      { filter: this.#filter, from: id, to: this.#to, limit: this.#limit },
-    );
+    return this.with({ from: id });
   }
 
+  /** Only includes revisions newer than the given revision. */
   newerThan(id: number) {
-    return new History(
-      this.wiki,
-      this.title,
-      { filter: this.#filter, from: this.#from, to: id, limit: this.#limit },
-    );
+    return this.with({ to: id });
   }
 
-  filter(filter: "reverted" | "anonymous" | "bot" | "minor") {
-    return new History(
-      this.wiki,
-      this.title,
-      { filter, from: this.#from, to: this.#to, limit: this.#limit },
-    );
+  /** Only includes revisions matching the given filter. */
+  filter(filter: HistoryFilter) {
+    return this.with({ filter });
   }
 
+  /** Stops after the given number of revisions. */
   limit(limit: number) {
-    return new History(
-      this.wiki,
-      this.title,
-      { filter: this.#filter, from: this.#from, to: this.#to, limit },
-    );
+    return this.with({ limit });
+  }
+
+  /** Reverses the order of the history, so that it goes from oldest to newest (or back again). */
+  reverse() {
+    return this.with({ reverse: !this.#reverse });
+  }
+
+  private with(options: {
+    filter?: HistoryFilter;
+    from?: number;
+    to?: number;
+    limit?: number;
+    reverse?: boolean;
+  }) {
+    return new History(this.wiki, this.title, {
+      filter: this.#filter,
+      from: this.#from,
+      to: this.#to,
+      limit: this.#limit,
+      reverse: this.#reverse,
+      ...options,
+    });
   }
 
-  // TODO: polyfill this, somehow
+  /**
+   * Returns data about a page's history.
+   * @param type Type of count
+   * @param from For `edits` and `editors` types only. Restricts the count to the revisions between two others, specified by revision ID, not counting those two. It has to be given along with `to`.
+   * @param to For `edits` and `editors` types only. The other end of the range, which also has to be given along with `from`.
+   */
   count(
-    /** Type of count */
     type: "anonymous" | "bot" | "editors" | "edits" | "minor" | "reverted",
+  ): Promise<HistoryCount>;
+  count(
+    type: "editors" | "edits",
     from: number,
     to: number,
-  ) {
-    return this.wiki.request({
-      path: `page/${this.title}/history/counts/${type}`,
-      params: { from, to },
-    });
+  ): Promise<HistoryCount>;
+  count(
+    type: "anonymous" | "bot" | "editors" | "edits" | "minor" | "reverted",
+    from?: number,
+    to?: number,
+  ): Promise<HistoryCount> {
+    // The REST API refuses a range for any other type
+    const range = type === "edits" || type === "editors" ? { from, to } : {};
+
+    if (this.wiki.polyfilled) {
+      return this.countPolyfill(type, range.from, range.to);
+    } else {
+      return this.wiki.request({
+        path: `page/${titlePath(this.title)}/history/counts/${type}`,
+        params: range,
+      }).then(HistoryCount.check);
+    }
+  }
+
+  /** Counts the revisions itself, over the whole history unless it's given a range. Like the REST API, the ends of the range aren't counted. */
+  private async countPolyfill(
+    type: "anonymous" | "bot" | "editors" | "edits" | "minor" | "reverted",
+    from?: number,
+    to?: number,
+  ): Promise<HistoryCount> {
+    const limit = countLimits[type];
+    const bots = type === "bot" ? await this.bots() : [];
+    const editors = new Set<string>();
+
+    let count = 0;
+    for await (
+      const batch of this.revisionsPolyfill({
+        // The Action API goes from newest to oldest by default, so the start is the newer one.
+        // It doesn't matter which way round `from` and `to` are given.
+        rvstartid: typeof from !== "undefined" && typeof to !== "undefined"
+          ? Math.max(from, to)
+          : undefined,
+        rvendid: typeof from !== "undefined" && typeof to !== "undefined"
+          ? Math.min(from, to)
+          : undefined,
+        rvlimit: "max",
+      })
+    ) {
+      for (const revision of batch) {
+        // The bounds are inclusive in the Action API, but not in the REST API
+        if (revision.revid === from || revision.revid === to) continue;
+
+        if (type === "editors") {
+          editors.add(revision.user);
+          count = editors.size;
+        } else if (type === "edits" || matchesFilter(revision, type, bots)) {
+          count++;
+        }
+
+        if (count > limit) {
+          return { count: limit, limit: true };
+        }
+      }
+    }
+
+    return { count, limit: false };
+  }
+
+  /** Returns the IDs of all the bots who have contributed to this page. */
+  private async bots(): Promise<number[]> {
+    const { query } = await this.wiki.request({
+      api: "action",
+      params: {
+        action: "query",
+        titles: this.title,
+        prop: "contributors",
+        pcgroup: "bot",
+        pclimit: "max", // Hopefully it'll never come across a page with too many bot contributors
+      },
+    }).then(QueryContributorsResponse.check);
+
+    return (query.pages[0].contributors ?? []).map((user) => user.userid);
+  }
+
+  /** Iterates through the Action API's `prop=revisions` for this page a response at a time, following continuations. */
+  private async *revisionsPolyfill(
+    params: Record<string, string | number | string[] | undefined>,
+  ): AsyncGenerator<ActionsRevision[], void, undefined> {
+    let continueParams = {};
+
+    while (true) {
+      const response = await this.wiki.request({
+        api: "action",
+        params: {
+          action: "query",
+          titles: this.title,
+          prop: "revisions",
+          rvprop: [
+            "ids",
+            "timestamp",
+            "flags",
+            "size",
+            "comment",
+            "user",
+            "userid",
+            "tags",
+          ],
+          ...params,
+          ...continueParams,
+        },
+      }).then(QueryRevisionResponse.check);
+
+      const page = response.query.pages?.[0];
+      if (typeof page === "undefined" || !("revisions" in page)) {
+        // The REST API gives a 404 for this
+        throw errorFromCode(
+          "missingtitle",
+          `The page ${this.title} doesn't exist.`,
+        );
+      }
+
+      yield page.revisions;
+
+      if (typeof response.continue === "undefined") return;
+      continueParams = response.continue;
+    }
   }
 
   async toArray(): Promise<Revision[]> {
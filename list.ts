@@ -0,0 +1,85 @@
+import { QueryListResponse } from "./actions-types.ts";
+import Wiki from "./wiki.ts";
+
+/**
+ * A list of things from an Action API query, which follows `continue` to get all of them.
+ *
+ * Like a page's history, you can iterate over it with `for await`, or await it to get everything at once.
+ */
+export class QueryList<T> implements AsyncIterable<T>, PromiseLike<T[]> {
+  /**
+   * @param params Parameters for `action=query`
+   * @param extract Gets the results out of each response's `query`
+   */
+  constructor(
+    protected wiki: Wiki,
+    private params: Record<
+      string,
+      string | number | boolean | string[] | undefined
+    >,
+    private extract: (query: Record<string, unknown>) => T[],
+  ) {}
+
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    // Async generators await whatever they yield, which would turn thenables like `AsyncPage` into what they resolve to, so the batches are flattened here instead
+    const batches = this.batches();
+    let batch: T[] = [];
+
+    return {
+      next: async () => {
+        while (batch.length === 0) {
+          const next = await batches.next();
+          if (next.done) return { done: true, value: undefined };
+          batch = next.value;
+        }
+
+        return { done: false, value: batch.shift()! };
+      },
+    };
+  }
+
+  private async *batches(): AsyncGenerator<T[]> {
+    let continueParams = {};
+
+    while (true) {
+      const response = await this.wiki.request({
+        api: "action",
+        params: {
+          action: "query",
+          ...this.params,
+          ...continueParams,
+        },
+      }).then(QueryListResponse.check);
+
+      yield this.extract(response.query ?? {});
+
+      if (typeof response.continue === "undefined") return;
+      continueParams = response.continue;
+    }
+  }
+
+  async toArray(): Promise<T[]> {
+    const arr = [];
+
+    for await (const item of this) {
+      arr.push(item);
+    }
+
+    return arr;
+  }
+
+  then<TResult1 = T[], TResult2 = never>(
+    onfulfilled?:
+      | ((value: T[]) => TResult1 | PromiseLike<TResult1>)
+      | undefined
+      | null,
+    onrejected?:
+      | ((reason: unknown) => TResult2 | PromiseLike<TResult2>)
+      | undefined
+      | null,
+  ): PromiseLike<TResult1 | TResult2> {
+    return this.toArray().then(onfulfilled, onrejected);
+  }
+}
+
+export default QueryList;
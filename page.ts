@@ -1,39 +1,189 @@
 import * as rt from "https://stupid-extensions.com/denopkg.com/Liamolucko/runtypes@export-type/src/index.ts";
 import {
+  ActionsEditSuccess,
+  ActionsExternalLink,
+  ActionsLanglink,
+  ActionsLinkedPage,
+  ActionsPageWithContent,
+  ActionsQueryPages,
+  DeleteResponse,
+  EditResponse,
+  MoveResponse,
   ParseHtmlResponse,
-  ParseLanglinksResponse,
+  ProtectResponse,
   QueryImagesResponse,
   QueryPageResponse,
+  RollbackResponse,
+  UndeleteResponse,
 } from "./actions-types.ts";
+import { ConflictError, EditError, NotFoundError } from "./errors.ts";
 import { History } from "./history.ts";
-import { PageLanguage, PageWithSource, WikiFile } from "./rest-types.ts";
+import { QueryList } from "./list.ts";
+import {
+  Page,
+  PageLanguage,
+  PageWithHtml,
+  PageWithSource,
+  WikiFile,
+} from "./rest-types.ts";
+import { AsyncRevision, ResolvedRevision } from "./revision.ts";
+import { parseSections, Section, spliceSection } from "./section.ts";
+import { Title, titleKey, titlePath } from "./title.ts";
 import Wiki from "./wiki.ts";
 
+/** Options for edits which the REST API doesn't have, so edits using any of them always go through the Action API. */
+export interface EditOptions {
+  /** Whether to mark the edit as minor */
+  minor?: boolean;
+
+  /** Whether to mark the edit as a bot edit, if the user has the `bot` right */
+  bot?: boolean;
+
+  /** Whether to add the page to the current user's watchlist or remove it from it. Default: `preferences` */
+  watchlist?: "watch" | "unwatch" | "preferences" | "nochange";
+
+  /** [Change tags](https://www.mediawiki.org/wiki/Manual:Tags) to apply to the edit */
+  tags?: string[];
+
+  /** Don't create the page if it doesn't exist, and fail with a `NotFoundError` instead */
+  nocreate?: boolean;
+
+  /** Don't edit the page if it already exists, and fail with a `ConflictError` instead */
+  createonly?: boolean;
+
+  /** When you started editing, so that the edit fails with a `ConflictError` if the page was deleted since then */
+  starttimestamp?: string;
+
+  /** The answer to a CAPTCHA an earlier attempt failed with, using the `id` from `EditError.captcha` */
+  captcha?: {
+    id: string;
+    word: string;
+  };
+
+  /** Make sure the edit is made while logged in, or as a bot */
+  assert?: "user" | "bot";
+}
+
+/** Options for edits which only change part of a page. */
+export interface TextEditOptions extends EditOptions {
+  /** Summary of the edit. Omit this property to let the server fill it in. */
+  comment?: string | null;
+
+  /** CSRF token to use instead of fetching one. Omit this property when authorizing using OAuth. */
+  token?: string;
+}
+
+/** What happened when a page was edited. */
+export interface EditResult {
+  /** Object containing the page's identifier and title */
+  page: {
+    id: number;
+    title: string;
+  };
+
+  /** Identifier of the revision the edit created, or `null` if nothing changed */
+  newrevid: number | null;
+
+  /** Identifier of the page's latest revision before the edit, or `null` if the edit created the page or nothing changed */
+  oldrevid: number | null;
+
+  /** Whether the edit was skipped because it didn't change anything */
+  nochange: boolean;
+}
+
+/** Picks out the `action=edit` parameters for some edit options. */
+function editParams(options: EditOptions) {
+  return {
+    minor: options.minor,
+    bot: options.bot,
+    watchlist: options.watchlist,
+    tags: options.tags,
+    nocreate: options.nocreate,
+    createonly: options.createonly,
+    starttimestamp: options.starttimestamp,
+    captchaid: options.captcha?.id,
+    captchaword: options.captcha?.word,
+    assert: options.assert,
+  };
+}
+
+/** Checks whether any options the REST API doesn't have are being used. */
+function needsActionApi(options: EditOptions) {
+  return Object.values(editParams(options)).some((value) =>
+    typeof value !== "undefined" && value !== false
+  );
+}
+
+/** Converts a page from the Action API into the REST API's format, without its source. */
+function convertPage(
+  page: ActionsPageWithContent,
+  rightsinfo: QueryPageResponse["query"]["rightsinfo"],
+): Omit<PageWithSource, "source"> {
+  const revision = page.revisions[0];
+
+  return {
+    id: page.pageid,
+    key: titleKey(page.title),
+    title: page.title,
+    latest: {
+      id: revision.revid,
+      timestamp: revision.timestamp,
+    },
+    content_model: page.contentmodel,
+    // This is the license for the entire wiki; not sure if those are the same
+    license: {
+      url: rightsinfo.url,
+      title: rightsinfo.text,
+    },
+  };
+}
+
 /** An object representing a wiki page. */
 abstract class PageBase {
   protected abstract wiki: Wiki;
   abstract title: string;
 
-  get languages(): Promise<PageLanguage[]> {
+  /**
+   * The versions of the page in other languages, with a page object for each one on its own wiki.
+   *
+   * The page objects don't fetch anything until they're used.
+   */
+  get languages(): Promise<(PageLanguage & { page: AsyncPage })[]> {
     if (this.wiki.polyfilled) {
-      return this.wiki.request({
-        params: {
-          action: "parse",
-          prop: "langlinks",
-        },
-      })
-        .then(ParseLanglinksResponse.check)
-        .then(({ parse }) =>
-          parse.langlinks.map(({ lang, autonym, title }) => ({
+      return new QueryList(this.wiki, {
+        titles: this.title,
+        prop: "langlinks",
+        llprop: ["autonym", "langname", "url"],
+        lllimit: "max",
+      }, (query) =>
+        rt.Array(ActionsLanglink).check(
+          ActionsQueryPages.check(query).pages[0]?.langlinks ?? [],
+        ))
+        .toArray()
+        .then((langlinks) =>
+          langlinks.map(({ lang, title, autonym, langname, url }) => ({
             code: lang,
-            name: autonym,
-            key: title.replace(" ", "_"),
+            // Some languages don't have an autonym
+            name: autonym || langname,
+            key: titleKey(title),
             title,
+            page: this.wiki.sibling(url).page(title),
           }))
         );
     } else {
-      return this.wiki.request({ path: `page/${this.title}/links/language` })
-        .then(rt.Array(PageLanguage).check);
+      return this.wiki.request({
+        path: `page/${titlePath(this.title)}/links/language`,
+      })
+        .then(rt.Array(PageLanguage).check)
+        .then((languages) =>
+          // The interwiki map is only fetched once for all of them
+          Promise.all(languages.map(async (language) => ({
+            ...language,
+            page: (await this.wiki.interwiki(language.code)).page(
+              language.title,
+            ),
+          })))
+        );
     }
   }
 
@@ -56,108 +206,713 @@ abstract class PageBase {
           ),
         }));
     } else {
-      return this.wiki.request({ path: `page/${this.title}/links/media` });
+      return this.wiki.request({
+        path: `page/${titlePath(this.title)}/links/media`,
+      });
     }
   }
 
-  /** 
+  /** The categories the page is in */
+  get categories(): QueryList<AsyncPage> {
+    return this.propPages("categories", "cl");
+  }
+
+  /** The templates (and other pages) transcluded on the page */
+  get templates(): QueryList<AsyncPage> {
+    return this.propPages("templates", "tl");
+  }
+
+  /** The pages the page links to, whether they exist or not */
+  get links(): QueryList<AsyncPage> {
+    return this.propPages("links", "pl");
+  }
+
+  /** The URLs of the external links on the page */
+  get externalLinks(): QueryList<string> {
+    return new QueryList(this.wiki, {
+      titles: this.title,
+      prop: "extlinks",
+      ellimit: "max",
+    }, (query) =>
+      rt.Array(ActionsExternalLink)
+        .check(ActionsQueryPages.check(query).pages[0]?.extlinks ?? [])
+        .map(({ url }) => url));
+  }
+
+  /** The pages which link to the page */
+  get backlinks(): QueryList<AsyncPage> {
+    return this.listPages("backlinks", "bl");
+  }
+
+  /** The pages which transclude the page */
+  get transclusions(): QueryList<AsyncPage> {
+    return this.listPages("embeddedin", "ei");
+  }
+
+  /** The pages which redirect to the page */
+  get redirects(): QueryList<AsyncPage> {
+    return this.propPages("redirects", "rd");
+  }
+
+  /** Lists the pages from a `prop` module, which puts them on the page they're about. */
+  private propPages(prop: string, prefix: string) {
+    return new QueryList(this.wiki, {
+      titles: this.title,
+      prop,
+      [`${prefix}limit`]: "max",
+    }, (query) =>
+      rt.Array(ActionsLinkedPage)
+        .check(ActionsQueryPages.check(query).pages[0]?.[prop] ?? [])
+        .map(({ title }) => new AsyncPage(this.wiki, title)));
+  }
+
+  /** Lists the pages from a `list` module, which puts them in a list named after itself. */
+  private listPages(list: string, prefix: string) {
+    return new QueryList(this.wiki, {
+      list,
+      [`${prefix}title`]: this.title,
+      [`${prefix}limit`]: "max",
+    }, (query) =>
+      rt.Array(ActionsLinkedPage)
+        .check(query[list] ?? [])
+        .map(({ title }) => new AsyncPage(this.wiki, title)));
+  }
+
+  /**
    * Creates a wiki page with this page object's title.
-   * 
-   * This endpoint is designed to be used with the OAuth extension authorization process. Callers using cookie-based authentication instead must add a CSRF `token` to the request body. To get a CSRF token, see the [Action API](https://www.mediawiki.org/wiki/API:Tokens).
+   *
+   * This endpoint is designed to be used with the OAuth extension authorization process. When using cookie-based authentication instead, a CSRF token is fetched automatically unless one is passed in.
    */
-  create(options: {
-    /** Page content in the format specified by the `content_model` property */
-    source: string;
+  create(
+    options: EditOptions & {
+      /** Page content in the format specified by the `content_model` property */
+      source: string;
 
-    /** Reason for creating the page. To allow the comment to be filled in by the server, use `"comment": null`. */
-    comment: string | null;
+      /** Reason for creating the page. To allow the comment to be filled in by the server, use `"comment": null`. */
+      comment: string | null;
 
-    /** Type of content on the page. Defaults to `wikitext`. See [the content handlers reference](https://www.mediawiki.org/wiki/Content_handlers) for content models supported by MediaWiki and extensions. */
-    content_model?: string;
+      /** Type of content on the page. Defaults to `wikitext`. See [the content handlers reference](https://www.mediawiki.org/wiki/Content_handlers) for content models supported by MediaWiki and extensions. */
+      content_model?: string;
 
-    /** CSRF token required when using cookie-based authentication. Omit this property when authorizing using OAuth. */
-    token?: string;
-  }): Promise<PageWithSource> {
-    if (this.wiki.polyfilled) {
-      return this.wiki.request({
-        method: "POST",
-        params: {
-          action: "edit",
-          title: this.title,
-          text: options.source,
-          contentmodel: options.content_model,
-          token: options.token,
-        },
-        headers: this.wiki.token
-          ? { "Authorization": `Bearer ${this.wiki.token}` }
-          : undefined,
-      });
+      /** CSRF token to use instead of fetching one. Omit this property when authorizing using OAuth. */
+      token?: string;
+    },
+  ): Promise<EditResult> {
+    if (this.wiki.polyfilled || needsActionApi(options)) {
+      return this.submitEdit({
+        text: options.source,
+        summary: options.comment ?? undefined,
+        contentmodel: options.content_model,
+      }, { createonly: true, ...options });
     } else {
-      return this.wiki.request({
-        method: "POST",
-        path: "page",
-        headers: {
-          "Content-Type": "application/json",
-          ...(typeof this.wiki.token !== "undefined" &&
-            { "Authorization": `Bearer ${this.wiki.token}` }),
-        },
-        body: JSON.stringify({ title: this.title, ...options }),
-      });
+      return this.withToken(options.token, (token) =>
+        this.wiki.request({
+          method: "POST",
+          path: "page",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            title: this.title,
+            source: options.source,
+            comment: options.comment,
+            content_model: options.content_model,
+            token,
+          }),
+          cache: { pages: [this.title] },
+        }))
+        .then(PageWithSource.check)
+        .then(({ id, title, latest }) => ({
+          page: { id, title },
+          newrevid: latest.id,
+          oldrevid: null,
+          nochange: false,
+        }));
     }
   }
 
   /**
-   * Updates or creates a wiki page. This endpoint is designed to be used with the OAuth extension authorization process. Callers using cookie-based authentication instead must add a CSRF `token` to the request body. To get a CSRF token, see the Action API.
-   * 
+   * Updates or creates a wiki page. This endpoint is designed to be used with the OAuth extension authorization process. When using cookie-based authentication instead, a CSRF token is fetched automatically unless one is passed in.
+   *
    * To update a page, you need the page's latest revision ID and the page source. First call the get page source endpoint, and then use the `source` and `latest.id` to update the page. If `latest.id` doesn't match the page's latest revision, the API resolves conflicts automatically when possible. In the event of an edit conflict, the API returns a 409 error.
-   * 
+   *
    * To create a page, omit `latest.id` from the request.
    */
-  update(options: {
-    /** Page content in the format specified by the `content_model` property */
-    source: string;
+  update(
+    options: EditOptions & {
+      /** Page content in the format specified by the `content_model` property */
+      source: string;
+
+      /** Summary of the edit. To allow the comment to be filled in by the server, use `"comment": null`. */
+      comment: string | null;
+
+      /** Object containing the identifier for the revision used as the base for the new `source`, required for updating an existing page. To create a page, omit this property. */
+      latest?: {
+        id: number;
+      };
+
+      /** Type of content on the page. Defaults to `wikitext` for new pages or to the existing page's content model. See [the content handlers reference](https://www.mediawiki.org/wiki/Content_handlers) for content models supported by MediaWiki and extensions. */
+      content_model?: string;
+
+      /** CSRF token to use instead of fetching one. Omit this property when authorizing using OAuth. */
+      token?: string;
+    },
+  ): Promise<EditResult> {
+    if (this.wiki.polyfilled || needsActionApi(options)) {
+      return this.submitEdit({
+        text: options.source,
+        summary: options.comment ?? undefined,
+        baserevid: options.latest?.id,
+        contentmodel: options.content_model,
+      }, options);
+    } else {
+      return this.withToken(options.token, (token) =>
+        this.wiki.request({
+          method: "PUT",
+          path: `page/${titlePath(this.title)}`,
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            title: this.title,
+            source: options.source,
+            comment: options.comment,
+            latest: options.latest,
+            content_model: options.content_model,
+            token,
+          }),
+          cache: { pages: [this.title] },
+        }))
+        .then(PageWithSource.check)
+        .then(({ id, title, latest }) => {
+          // The REST API just returns the page, so this has to be worked out from the revision the edit was based on
+          const nochange = latest.id === options.latest?.id;
+
+          return {
+            page: { id, title },
+            newrevid: nochange ? null : latest.id,
+            oldrevid: nochange ? null : options.latest?.id ?? null,
+            nochange,
+          };
+        });
+    }
+  }
+
+  /**
+   * Updates a wiki page using edited [Parsoid HTML](https://www.mediawiki.org/wiki/Specs/HTML), e.g. from `html()`, by converting it back into wikitext first.
+   *
+   * Passing `latest.id` lets Parsoid keep the formatting of anything which wasn't changed, as well as detecting edit conflicts.
+   */
+  async updateHtml(
+    options: EditOptions & {
+      /** Page content in HTML */
+      html: string;
+
+      /** Summary of the edit. To allow the comment to be filled in by the server, use `"comment": null`. */
+      comment: string | null;
+
+      /** Object containing the identifier for the revision the HTML came from, required for updating an existing page. To create a page, omit this property. */
+      latest?: {
+        id: number;
+      };
+
+      /** CSRF token to use instead of fetching one. Omit this property when authorizing using OAuth. */
+      token?: string;
+    },
+  ): Promise<EditResult> {
+    const { html, ...rest } = options;
+
+    const source = await this.wiki.transform.htmlToWikitext(html, {
+      title: this.title,
+      revision: options.latest?.id,
+    });
+
+    return this.update({ ...rest, source });
+  }
+
+  /**
+   * Edits the page by running its latest source through `transform`, and saving the result.
+   *
+   * If someone else edits the page in the meantime, the new source is fetched and `transform` is run again, up to `retries` times before giving up with a `ConflictError`.
+   * This always uses the Action API, since the REST API can't mark edits as minor or as bot edits.
+   * @returns The page after the edit, and the ID of the new revision (or of the latest one, if nothing changed)
+   */
+  async edit(
+    transform: (source: string) => string | Promise<string>,
+    options: EditOptions & {
+      /** Summary of the edit */
+      summary?: string;
+
+      /** How many times to try again after an edit conflict. Default: 3 */
+      retries?: number;
+
+      /** CSRF token to use instead of fetching one */
+      token?: string;
+    } = {},
+  ): Promise<{ page: ResolvedPage; revision: number }> {
+    const { retries = 3 } = options;
+
+    for (let attempt = 0;; attempt++) {
+      const { source, latest } = await this.wiki.page(this.title);
+
+      let result: EditResult;
+      try {
+        result = await this.submitEdit({
+          text: await transform(source),
+          summary: options.summary,
+          baserevid: latest.id,
+          basetimestamp: latest.timestamp,
+        }, {
+          // Don't recreate the page if it's been deleted in the meantime
+          nocreate: true,
+          ...options,
+        });
+      } catch (error) {
+        if (error instanceof ConflictError && attempt < retries) {
+          // Otherwise the same old source could come straight back out of the cache
+          await this.wiki.cache?.invalidate(this.wiki.apiUrl.href, this.title);
+          continue;
+        } else {
+          throw error;
+        }
+      }
+
+      return {
+        page: await this.wiki.page(this.title),
+        revision: result.newrevid ?? latest.id,
+      };
+    }
+  }
+
+  /** Lists the sections of the page's latest revision, not including the lead section. */
+  async sections(): Promise<Section[]> {
+    return parseSections(await this.wiki.page(this.title).source);
+  }
+
+  /** Returns an object for editing just one section of the page. Section 0 is the lead section before the first heading. */
+  section(index: number): PageSection {
+    return new PageSection(this, index);
+  }
+
+  /** Replaces a section of the page, including its heading. */
+  updateSection(
+    index: number,
+    source: string,
+    options: TextEditOptions = {},
+  ): Promise<EditResult> {
+    return this.editText(
+      { section: index, text: source },
+      options,
+      (page) => spliceSection(page, index, () => source),
+    );
+  }
+
+  /** Adds a new section to the end of the page, creating the page if it doesn't exist. */
+  appendSection(
+    heading: string,
+    source: string,
+    options: TextEditOptions = {},
+  ): Promise<EditResult> {
+    return this.editText(
+      { section: "new", sectiontitle: heading, text: source },
+      {
+        ...options,
+        // This is what the server fills in for new sections
+        comment: options.comment ?? `/* ${heading} */ new section`,
+      },
+      (page) =>
+        page.trimEnd() === ""
+          ? `== ${heading} ==\n\n${source}`
+          : `${page.trimEnd()}\n\n== ${heading} ==\n\n${source}`,
+    );
+  }
+
+  /** Adds some text to the start of the page, or of one of its sections if `section` is given. */
+  prependText(
+    text: string,
+    options: TextEditOptions & { section?: number } = {},
+  ): Promise<EditResult> {
+    return this.editText(
+      { section: options.section, prependtext: text },
+      options,
+      (page) =>
+        typeof options.section === "undefined"
+          ? text + page
+          : spliceSection(page, options.section, (section) => text + section),
+    );
+  }
+
+  /** Adds some text to the end of the page, or of one of its sections if `section` is given. */
+  appendText(
+    text: string,
+    options: TextEditOptions & { section?: number } = {},
+  ): Promise<EditResult> {
+    return this.editText(
+      { section: options.section, appendtext: text },
+      options,
+      (page) =>
+        typeof options.section === "undefined"
+          ? page + text
+          : spliceSection(page, options.section, (section) => section + text),
+    );
+  }
+
+  /**
+   * Edits part of the page, using `action=edit`'s parameters for it on the Action API.
+   *
+   * The REST API can only replace the whole page, so instead `splice` makes the same change to the latest source here, which is then saved with the latest revision ID so that conflicts are still caught.
+   */
+  private async editText(
+    params: Record<string, string | number | undefined>,
+    options: TextEditOptions,
+    splice: (source: string) => string,
+  ): Promise<EditResult> {
+    if (this.wiki.polyfilled || needsActionApi(options)) {
+      return this.submitEdit(
+        { ...params, summary: options.comment ?? undefined },
+        options,
+      );
+    } else {
+      let source = "";
+      let latest: { id: number } | undefined;
+
+      try {
+        const page = await this.wiki.page(this.title);
+        source = page.source;
+        latest = { id: page.latest.id };
+      } catch (error) {
+        // Like `action=edit`, this creates the page if it doesn't exist
+        if (!(error instanceof NotFoundError)) throw error;
+      }
 
-    /** Summary of the edit. To allow the comment to be filled in by the server, use `"comment": null`. */
-    comment: string | null;
+      return this.update({
+        source: splice(source),
+        comment: options.comment ?? null,
+        latest,
+        token: options.token,
+      });
+    }
+  }
+
+  /** Makes an edit with `action=edit`, which works on REST wikis too. */
+  private async submitEdit(
+    params: Record<string, string | number | undefined>,
+    options: EditOptions & { token?: string },
+  ): Promise<EditResult> {
+    const { edit } = await this.postAction({
+      action: "edit",
+      title: this.title,
+      ...params,
+      ...editParams(options),
+    }, options.token).then(EditResponse.check);
+
+    if (!ActionsEditSuccess.guard(edit)) {
+      const captcha = "captcha" in edit ? edit.captcha : undefined;
+
+      throw new EditError(
+        typeof captcha !== "undefined"
+          ? "A CAPTCHA has to be solved to make this edit"
+          : `The edit wasn't saved: ${edit.result}`,
+        edit.result,
+        captcha && { ...captcha, id: captcha.id.toString() },
+      );
+    }
 
-    /** Object containing the identifier for the revision used as the base for the new `source`, required for updating an existing page. To create a page, omit this property. */
-    latest?: {
-      id: number;
+    return {
+      page: { id: edit.pageid, title: edit.title },
+      newrevid: edit.newrevid ?? null,
+      oldrevid: edit.oldrevid ?? null,
+      nochange: edit.nochange ?? false,
     };
+  }
+
+  /**
+   * Undoes an edit to the page, or a range of them.
+   * @param revision Identifier of the revision to undo
+   * @returns The revision the undo made, or the latest revision if there was nothing to undo. Promises can't resolve to `AsyncRevision`s, since they're thenable, so this is already resolved.
+   */
+  async undo(revision: number, options: EditOptions & {
+    /** Identifier of an older revision to undo back to, so that every revision after it up to `revision` is undone. It isn't undone itself. */
+    after?: number;
 
-    /** Type of content on the page. Defaults to `wikitext` for new pages or to the existing page's content model. See [the content handlers reference](https://www.mediawiki.org/wiki/Content_handlers) for content models supported by MediaWiki and extensions. */
-    content_model?: string;
+    /** Summary of the edit. If this is omitted, the server fills in the usual message for undos. */
+    summary?: string;
 
-    /** CSRF token required when using cookie-based authentication. Omit this property when authorizing using OAuth. */
+    /** CSRF token to use instead of fetching one */
     token?: string;
-  }): Promise<PageWithSource> {
-    if (this.wiki.polyfilled) {
-      return this.wiki.request({
+  } = {}): Promise<ResolvedRevision> {
+    const result = await this.submitEdit({
+      undo: revision,
+      undoafter: options.after,
+      summary: options.summary,
+    }, options);
+
+    return new AsyncRevision(
+      this.wiki,
+      result.newrevid ?? (await this.wiki.page(this.title).latest).id,
+    ).fetch();
+  }
+
+  /**
+   * Reverts the latest edits to the page, as long as they were all made by `user`, back to the last revision by someone else.
+   *
+   * This needs the `rollback` right.
+   * @returns The revision the rollback made, already resolved like with `undo()`
+   */
+  rollback(user: string, options: {
+    /** Summary of the edit. If this is omitted, the server fills in the usual message for rollbacks. */
+    summary?: string;
+
+    /** Mark the edits being reverted and the rollback itself as bot edits, if the user has the `markbotedits` right */
+    markbot?: boolean;
+
+    /** Rollback token to use instead of fetching one */
+    token?: string;
+  } = {}): Promise<ResolvedRevision> {
+    const request = (token: string) =>
+      this.wiki.request({
         method: "POST",
+        api: "action",
         params: {
-          action: "edit",
+          action: "rollback",
           title: this.title,
-          text: options.source,
-          summary: options.comment ?? undefined,
-          baserevid: options.latest?.id,
-          contentmodel: options.content_model,
-          token: options.token,
+          user,
+          summary: options.summary,
+          markbot: options.markbot,
+          token,
         },
-        headers: this.wiki.token
-          ? { "Authorization": `Bearer ${this.wiki.token}` }
-          : undefined,
+        cache: { pages: [this.title] },
       });
+
+    return (typeof options.token !== "undefined"
+      ? request(options.token)
+      : this.wiki.withCsrfToken(request, "rollback"))
+      .then(RollbackResponse.check)
+      .then(({ rollback }) =>
+        new AsyncRevision(this.wiki, rollback.revid).fetch()
+      );
+  }
+
+  /**
+   * Renames the page, along with its history.
+   * @param to The new title of the page
+   */
+  move(to: string, options: {
+    /** Reason for the move */
+    reason?: string;
+
+    /** Don't leave a redirect behind at the old title, if the user has the `suppressredirect` right */
+    noredirect?: boolean;
+
+    /** Move the talk page too, if it exists */
+    movetalk?: boolean;
+
+    /** Move any subpages too, if the namespace has them */
+    movesubpages?: boolean;
+
+    /** CSRF token to use instead of fetching one */
+    token?: string;
+  } = {}): Promise<MoveResponse["move"]> {
+    return this.postAction(
+      {
+        action: "move",
+        from: this.title,
+        to,
+        reason: options.reason,
+        noredirect: options.noredirect,
+        movetalk: options.movetalk,
+        movesubpages: options.movesubpages,
+      },
+      options.token,
+      [this.title, to],
+    )
+      .then(MoveResponse.check)
+      .then(({ move }) => move);
+  }
+
+  /**
+   * Deletes the page, along with its history.
+   * @param reason Reason for the deletion. If this is omitted, the server fills one in.
+   */
+  delete(
+    reason?: string,
+    options: { token?: string } = {},
+  ): Promise<DeleteResponse["delete"]> {
+    return this.postAction({
+      action: "delete",
+      title: this.title,
+      reason,
+    }, options.token)
+      .then(DeleteResponse.check)
+      .then(({ delete: result }) => result);
+  }
+
+  /**
+   * Restores the page's deleted revisions.
+   * @param reason Reason for restoring the page
+   * @param revisions Identifiers of the deleted revisions to restore. If this is omitted, all of them are restored.
+   */
+  undelete(
+    reason?: string,
+    revisions?: number[],
+    options: { token?: string } = {},
+  ): Promise<UndeleteResponse["undelete"]> {
+    return this.postAction({
+      action: "undelete",
+      title: this.title,
+      reason,
+      undeleterevisions: revisions?.map((id) => id.toString()),
+    }, options.token)
+      .then(UndeleteResponse.check)
+      .then(({ undelete }) => undelete);
+  }
+
+  /**
+   * Changes the page's protection levels.
+   * @param levels The user group needed for each action, e.g. `{ edit: "autoconfirmed", move: "sysop" }`. Use `all` to remove an action's protection.
+   * @param expiry When the protection expires, either as a timestamp or relative like `1 week`. Default: `infinite`
+   */
+  protect(
+    levels: Record<string, string>,
+    expiry = "infinite",
+    options: {
+      /** Reason for the protection */
+      reason?: string;
+
+      /** Protect pages transcluded on this one too. Only allowed if the levels are high enough. */
+      cascade?: boolean;
+
+      /** CSRF token to use instead of fetching one */
+      token?: string;
+    } = {},
+  ): Promise<ProtectResponse["protect"]> {
+    const actions = Object.keys(levels);
+
+    return this.postAction({
+      action: "protect",
+      title: this.title,
+      protections: actions.map((action) => `${action}=${levels[action]}`),
+      expiry: actions.map(() => expiry),
+      reason: options.reason,
+      cascade: options.cascade,
+    }, options.token)
+      .then(ProtectResponse.check)
+      .then(({ protect }) => protect);
+  }
+
+  /**
+   * Makes a `POST` request to the Action API, which works on REST wikis too since they still have one.
+   *
+   * The Action API always needs a CSRF token, even when using OAuth, so one's fetched unless `token` is given.
+   */
+  private postAction(
+    params: Record<string, string | number | boolean | string[] | undefined>,
+    token?: string,
+    pages = [this.title],
+  ) {
+    const request = (token: string) =>
+      this.wiki.request({
+        method: "POST",
+        api: "action",
+        params: { ...params, token },
+        cache: { pages },
+      });
+
+    return typeof token !== "undefined"
+      ? request(token)
+      : this.wiki.withCsrfToken(request);
+  }
+
+  /**
+   * Makes a request with the CSRF token if it's needed, using the given token or else getting one from the wiki.
+   *
+   * The REST API doesn't want a token when using OAuth, so `undefined` is passed instead.
+   */
+  protected withToken<T>(
+    token: string | undefined,
+    request: (token: string | undefined) => Promise<T>,
+  ): Promise<T> {
+    if (typeof token !== "undefined") {
+      return request(token);
+    } else if (
+      !this.wiki.polyfilled && typeof this.wiki.auth !== "undefined"
+    ) {
+      return request(undefined);
     } else {
-      return this.wiki.request({
-        method: "PUT",
-        path: `page/${this.title}`,
-        headers: {
-          "Content-Type": "application/json",
-          ...(typeof this.wiki.token !== "undefined" &&
-            { "Authorization": `Bearer ${this.wiki.token}` }),
+      return this.wiki.withCsrfToken(request);
+    }
+  }
+
+  /**
+   * Returns the page's content as [Parsoid HTML](https://www.mediawiki.org/wiki/Specs/HTML), along with information about the page.
+   *
+   * On the Action API, this uses `action=parse` with `parsoid=1`. Wikis which are too old to support that return the legacy parser's HTML instead.
+   */
+  async html(options: {
+    /** Identifier of an older revision to get the HTML of, instead of the latest one */
+    revision?: number;
+
+    /** Whether to follow redirects to their target page. Default: true */
+    redirect?: boolean;
+
+    /** [Language variant](https://www.mediawiki.org/wiki/Writing_systems) to convert the content to, e.g. `zh-hant` */
+    variant?: string;
+
+    /** Whether to stash the rendering on the server, which is needed to transform the HTML back into wikitext afterwards. REST API only. */
+    stash?: boolean;
+  } = {}): Promise<PageWithHtml> {
+    if (this.wiki.polyfilled) {
+      const { parse } = await this.wiki.request({
+        params: {
+          action: "parse",
+          ...(typeof options.revision !== "undefined"
+            ? { oldid: options.revision }
+            : { page: this.title }),
+          prop: ["text", "revid"],
+          parsoid: "1",
+          redirects: options.redirect === false ? undefined : "1",
+          variant: options.variant,
         },
-        body: JSON.stringify({ title: this.title, ...options }),
-      });
+      }).then(ParseHtmlResponse.check);
+
+      // If it was a redirect, this is the target's title
+      const { page, rightsinfo } = await this.wiki.pages.get(parse.title);
+
+      return { ...convertPage(page, rightsinfo), html: parse.text };
+    } else {
+      const params = {
+        redirect: options.redirect === false ? "no" : undefined,
+        stash: options.stash ? "true" : undefined,
+      };
+      const headers = typeof options.variant !== "undefined"
+        ? { "Accept-Language": options.variant }
+        : undefined;
+
+      if (typeof options.revision === "undefined") {
+        return this.wiki.request({
+          path: `page/${titlePath(this.title)}/with_html`,
+          params,
+          headers,
+        }).then(PageWithHtml.check);
+      } else {
+        const [page, html] = await Promise.all([
+          this.wiki.request({
+            path: `page/${titlePath(this.title)}/bare`,
+            params: { redirect: params.redirect },
+          }).then(Page.check),
+          this.wiki.requestRaw({
+            path: `revision/${options.revision}/html`,
+            params: { stash: params.stash },
+            headers,
+          }).then((response) => response.text()),
+        ]);
+
+        return {
+          id: page.id,
+          key: page.key,
+          title: page.title,
+          latest: page.latest,
+          content_model: page.content_model,
+          license: page.license,
+          html,
+        };
+      }
     }
   }
 
@@ -167,6 +922,26 @@ abstract class PageBase {
   }
 }
 
+/** A section of a wiki page, which can be edited on its own. */
+export class PageSection {
+  constructor(protected page: PageBase, public index: number) {}
+
+  /** Replaces the section, including its heading. */
+  update(source: string, options: TextEditOptions = {}) {
+    return this.page.updateSection(this.index, source, options);
+  }
+
+  /** Adds some text to the start of the section. */
+  prependText(text: string, options: TextEditOptions = {}) {
+    return this.page.prependText(text, { ...options, section: this.index });
+  }
+
+  /** Adds some text to the end of the section. */
+  appendText(text: string, options: TextEditOptions = {}) {
+    return this.page.appendText(text, { ...options, section: this.index });
+  }
+}
+
 /**
  * An object representing a wiki page.
  * 
@@ -188,8 +963,12 @@ abstract class PageBase {
  * ```
  */
 export class AsyncPage extends PageBase implements PromiseLike<ResolvedPage> {
-  constructor(protected wiki: Wiki, public title: string) {
+  title: string;
+
+  /** @param title The page's title. Passing a `Title` from `wiki.title()` makes sure it's normalised. */
+  constructor(protected wiki: Wiki, title: string | Title) {
     super();
+    this.title = title.toString();
   }
 
   get id() {
@@ -216,68 +995,33 @@ export class AsyncPage extends PageBase implements PromiseLike<ResolvedPage> {
     return this._fetch().then((page) => page.source);
   }
 
-  get html() {
-    if (this.wiki.polyfilled) {
-      return this.wiki.request({
-        params: {
-          action: "parse",
-          page: this.title,
-          prop: "text",
-        },
-      })
-        .then(ParseHtmlResponse.check)
-        .then(({ parse }) => parse.text);
-    } else {
-      return fetch(new URL(`page/${this.title}/html`, this.wiki.apiUrl))
-        .then((response) => response.text());
-    }
-  }
-
   /** Returns the data without wrapping it in a ResolvedPage. */
   private async _fetch(): Promise<PageWithSource> {
     if (this.wiki.polyfilled) {
-      const { query } = await this.wiki.request({
-        params: {
-          action: "query",
-          titles: this.title,
-          prop: ["revisions", "info"],
-          rvprop: ["ids", "timestamp", "content"],
-          rvlimit: 1,
-          meta: "siteinfo",
-          siprop: "rightsinfo",
-        },
-      }).then(QueryPageResponse.check);
-
-      const page = query.pages[0];
-      const revision = page.revisions[0];
+      const { page, rightsinfo } = await this.wiki.pages.get(this.title);
 
       return {
-        id: page.pageid,
-        key: page.title.replaceAll(" ", "_"),
-        title: page.title,
-        latest: {
-          id: revision.revid,
-          timestamp: revision.timestamp,
-        },
-        content_model: page.contentmodel,
-        // This is the license for the entire wiki; not sure if those are the same
-        license: {
-          url: query.rightsinfo.url,
-          title: query.rightsinfo.text,
-        },
-        source: revision.content,
+        ...convertPage(page, rightsinfo),
+        source: page.revisions[0].content,
       };
     } else {
-      return this.wiki.request({ path: `page/${this.title}` })
+      return this.wiki.request({
+        path: `page/${titlePath(this.title)}`,
+        cache: { pages: [this.title] },
+      })
         .then(PageWithSource.check);
     }
   }
 
   async fetch(): Promise<ResolvedPage> {
-    return new ResolvedPage(
-      this.wiki,
-      await this._fetch(),
+    const page = await this._fetch();
+    await this.wiki.cache?.observeRevision(
+      this.wiki.apiUrl.href,
+      this.title,
+      page.latest.id,
     );
+
+    return new ResolvedPage(this.wiki, page);
   }
 
   // Promise methods
@@ -10,6 +10,7 @@ import {
   Static,
   String,
   Union,
+  Unknown,
 } from "https://stupid-extensions.com/denopkg.com/Liamolucko/runtypes@export-type/src/index.ts";
 
 /** The search result object represents a wiki page matching the requested search. */
@@ -27,7 +28,7 @@ export const SearchResult = Record({
   excerpt: String,
 
   /** Short summary of the page topic based on the corresponding entry on [Wikidata](https://www.wikidata.org/wiki/) or `null` if no entry exists */
-  description: String,
+  description: String.Or(Null),
 
   /** Information about the thumbnail image for the page or `null` if no thumbnail exists. */
   thumbnail: Record({
@@ -235,6 +236,31 @@ export const RevisionWithPage = Revision.And(Record({
 }));
 export type RevisionWithPage = Static<typeof RevisionWithPage>;
 
+export const RevisionWithSource = RevisionWithPage.And(Record({
+  /** Type of content in the revision's main slot. See the [content handlers reference](https://www.mediawiki.org/wiki/Content_handlers) for content models supported by MediaWiki and extensions. */
+  content_model: String,
+
+  /** Revision content in the format specified by the `content_model` property */
+  source: String,
+}));
+export type RevisionWithSource = Static<typeof RevisionWithSource>;
+
+/** A problem [Linter](https://www.mediawiki.org/wiki/Extension:Linter) found in some wikitext. */
+export const LintError = Record({
+  /** The kind of problem, e.g. `obsolete-tag` or `missing-end-tag` */
+  type: String,
+
+  /** Where the problem is in the wikitext, as `[start, end, start tag width, end tag width]` */
+  dsr: Array(Number.Or(Null)),
+}).And(Partial({
+  /** Extra information about the problem, which depends on its type */
+  params: Dictionary(Unknown, "string"),
+
+  /** The template the problem came from, if it wasn't directly in the wikitext */
+  templateInfo: Partial({ name: String, multiPartTemplateBlock: Boolean }),
+}));
+export type LintError = Static<typeof LintError>;
+
 export const History = Record({
   /** API route to get the latest revisions */
   latest: String,
@@ -250,18 +276,18 @@ export const History = Record({
 }));
 export type History = Static<typeof History>;
 
+export const HistoryCount = Record({
+  /** The value of the data point up to the type's limit. If the value exceeds the limit, the API returns the limit as the value of `count` and sets the `limit` property to true. */
+  count: Number,
+
+  /** Returns true if the data point exceeds the type's limit. */
+  limit: Boolean,
+});
+export type HistoryCount = Static<typeof HistoryCount>;
+
 export const ApiError = Record({
   /** [Status code](https://en.wikipedia.org/wiki/List_of_HTTP_status_codes) */
-  httpCode: Union(
-    Literal(200),
-    Literal(201),
-    Literal(400),
-    Literal(403),
-    Literal(404),
-    Literal(412),
-    Literal(415),
-    Literal(500),
-  ),
+  httpCode: Number,
 
   /** Status message */
   httpReason: String,
@@ -277,9 +303,44 @@ export const ApiError = Record({
 
   /** Internal error code */
   actionModuleErrorCode: String,
+
+  /** Message key of the error, e.g. `rest-nonexistent-title` */
+  errorKey: String,
 }));
 export type ApiError = Static<typeof ApiError>;
 
+/** The response from the OAuth 2.0 `access_token` endpoint */
+export const AccessToken = Record({
+  /** Always `Bearer` */
+  token_type: String,
+
+  /** Number of seconds until the access token expires */
+  expires_in: Number,
+
+  /** The access token itself */
+  access_token: String,
+}).And(Partial({
+  /** A new refresh token, which replaces the one that was used */
+  refresh_token: String,
+
+  /** Space-separated list of the scopes which were granted */
+  scope: String,
+}));
+export type AccessToken = Static<typeof AccessToken>;
+
+/** An error from the OAuth 2.0 endpoints */
+export const OAuthErrorResponse = Record({
+  /** Error code, e.g. `invalid_client` */
+  error: String,
+}).And(Partial({
+  /** Human-readable description of the error */
+  error_description: String,
+
+  /** Human-readable description of the error, which MediaWiki sometimes uses instead of `error_description` */
+  message: String,
+}));
+export type OAuthErrorResponse = Static<typeof OAuthErrorResponse>;
+
 export const RevisionInfo = Record({
   id: Number,
   slot_role: String,
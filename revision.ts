@@ -1,20 +1,163 @@
 import {
-  ActionsPage,
-  ActionsRevision,
-  QueryPageResponse,
-  QueryHistoryResponse,
-  QueryRevisionResponse,
+  ParseTextResponse,
+  QueryRevisionSlotsResponse,
 } from "./actions-types.ts";
-import { RevisionWithPage } from "./rest-types.ts";
+import { longTtl } from "./cache.ts";
+import { errorFromCode } from "./errors.ts";
+import type { EditOptions } from "./page.ts";
+import {
+  LintError,
+  RevisionWithPage,
+  RevisionWithSource,
+} from "./rest-types.ts";
 import Wiki from "./wiki.ts";
 
+/** The content of one of a revision's [slots](https://www.mediawiki.org/wiki/Multi-Content_Revisions). */
+export interface RevisionSlot {
+  /** Type of content in the slot. See the [content handlers reference](https://www.mediawiki.org/wiki/Content_handlers) for content models supported by MediaWiki and extensions. */
+  content_model: string;
+
+  /** Slot content in the format specified by the `content_model` property */
+  source: string;
+}
+
 abstract class RevisionBase {
   protected abstract wiki: Wiki;
   abstract id: number;
+  abstract page:
+    | { id: number; title: string }
+    | Promise<{
+      id: number;
+      title: string;
+    }>;
 
   compare(to: number | string) {
     return this.wiki.compare(this.id, to);
   }
+
+  /**
+   * Undoes this revision, by making an edit which reverses its changes.
+   * @returns The revision the undo made, already resolved
+   */
+  async undo(options: EditOptions & {
+    /** Summary of the edit. If this is omitted, the server fills in the usual message for undos. */
+    summary?: string;
+
+    /** CSRF token to use instead of fetching one */
+    token?: string;
+  } = {}): Promise<ResolvedRevision> {
+    const { title } = await this.page;
+
+    return this.wiki.page(title).undo(this.id, options);
+  }
+
+  /**
+   * Undoes every revision since `to` up to and including this one, so that the page goes back to how it was in `to`.
+   * @param to Identifier of the older revision to go back to
+   * @returns The revision the undo made, already resolved
+   */
+  async undoRange(to: number, options: EditOptions & {
+    /** Summary of the edit. If this is omitted, the server fills in the usual message for undos. */
+    summary?: string;
+
+    /** CSRF token to use instead of fetching one */
+    token?: string;
+  } = {}): Promise<ResolvedRevision> {
+    const { title } = await this.page;
+
+    return this.wiki.page(title).undo(this.id, { ...options, after: to });
+  }
+
+  /** Revision content in its main slot, usually wikitext */
+  get source(): Promise<string> {
+    return this.content().then(({ source }) => source);
+  }
+
+  /**
+   * Revision content in each of its slots, keyed by role.
+   * Most revisions only have the `main` slot, but some wikis keep other things (like structured data on Commons) in separate slots.
+   */
+  get slots(): Promise<Record<string, RevisionSlot>> {
+    return this.fetchSlots().then(({ slots }) => slots);
+  }
+
+  /** Revision content in HTML, following the [HTML specification](https://www.mediawiki.org/wiki/Specs/HTML) */
+  get html(): Promise<string> {
+    if (this.wiki.polyfilled) {
+      return this.wiki.request({
+        method: "GET",
+        params: {
+          action: "parse",
+          oldid: this.id,
+          prop: "text",
+          parsoid: "1",
+        },
+        cache: { ttl: longTtl },
+      })
+        .then(ParseTextResponse.check)
+        .then(({ parse }) => parse.text);
+    } else {
+      return this.wiki.requestRaw({ path: `revision/${this.id}/html` })
+        .then((response) => response.text());
+    }
+  }
+
+  /** Problems [Linter](https://www.mediawiki.org/wiki/Extension:Linter) finds in the revision's wikitext */
+  get lint(): Promise<LintError[]> {
+    return this.content().then(({ title, source }) =>
+      this.wiki.transform.lint(source, { title, revision: this.id })
+    );
+  }
+
+  /** Fetches the revision's main slot, along with the title needed to make sense of it. */
+  private async content(): Promise<{ title: string; source: string }> {
+    if (this.wiki.polyfilled) {
+      const { title, slots } = await this.fetchSlots();
+
+      return { title, source: slots.main.source };
+    } else {
+      const { page, source } = await this.wiki.request({
+        path: `revision/${this.id}`,
+        cache: { ttl: longTtl },
+      })
+        .then(RevisionWithSource.check);
+
+      return { title: page.title, source };
+    }
+  }
+
+  /** The REST API only has the main slot, so this always uses the Action API. */
+  private async fetchSlots() {
+    const { query } = await this.wiki.request({
+      api: "action",
+      params: {
+        action: "query",
+        revids: this.id,
+        prop: "revisions",
+        rvprop: ["ids", "content"],
+        rvslots: "*",
+      },
+      cache: { ttl: longTtl },
+    })
+      .then(QueryRevisionSlotsResponse.check);
+
+    const page = query.pages?.[0];
+    const revision = page?.revisions[0];
+
+    if (typeof page === "undefined" || typeof revision === "undefined") {
+      throw errorFromCode(
+        "nosuchrevid",
+        `There is no revision with ID ${this.id}.`,
+      );
+    }
+
+    const slots: Record<string, RevisionSlot> = {};
+    for (const [role, slot] of Object.entries(revision.slots)) {
+      slots[role] = { content_model: slot.contentmodel, source: slot.content };
+    }
+
+    return { title: page.title, slots };
+  }
 }
 
 export class AsyncRevision extends RevisionBase
@@ -27,29 +170,14 @@ export class AsyncRevision extends RevisionBase
 
   private async _fetch() {
     if (this.wiki.polyfilled) {
-      const { query } = await this.wiki.request({
-        params: {
-          action: "query",
-          revids: this.id,
-          prop: "revisions",
-          rvprop: [
-            "ids",
-            "timestamp",
-            "flags",
-            "size",
-            "comment",
-            "user",
-            "userid",
-          ],
-        },
-      }).then(QueryRevisionResponse.check);
+      const { revision, page } = await this.wiki.revisions.get(this.id);
 
-      return this.wiki.convertRevision(
-        query.pages[0].revisions[0],
-        query.pages[0],
-      );
+      return this.wiki.convertRevision(revision, page);
     } else {
-      return this.wiki.request({ path: `revision/${this.id}/bare` })
+      return this.wiki.request({
+        path: `revision/${this.id}/bare`,
+        cache: { ttl: longTtl },
+      })
         .then(RevisionWithPage.check);
     }
   }
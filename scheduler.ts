@@ -0,0 +1,66 @@
+import { sleep } from "./transport.ts";
+
+/** Limits on how many requests can be made. */
+export interface Limits {
+  /** The maximum number of requests which can be in progress at once */
+  concurrency?: number;
+
+  /** The maximum number of requests which can be started every second */
+  perSecond?: number;
+}
+
+/**
+ * Queues up tasks so that only so many run at once, and they don't start too often.
+ */
+export class Scheduler {
+  concurrency: number;
+  perSecond: number;
+
+  #active = 0;
+  #queue: (() => void)[] = [];
+  /** The earliest time the next task is allowed to start */
+  #next = 0;
+
+  constructor({ concurrency = Infinity, perSecond = Infinity }: Limits = {}) {
+    this.concurrency = concurrency;
+    this.perSecond = perSecond;
+  }
+
+  /** Runs a task once there's room for it. */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private async acquire() {
+    if (this.#active < this.concurrency) {
+      this.#active++;
+    } else {
+      // `release` hands its slot straight over, so there's no need to increment it
+      await new Promise<void>((resolve) => this.#queue.push(resolve));
+    }
+
+    const now = Date.now();
+    const start = Math.max(now, this.#next);
+    this.#next = start + 1000 / this.perSecond;
+
+    if (start > now) await sleep(start - now);
+  }
+
+  private release() {
+    const next = this.#queue.shift();
+
+    if (typeof next !== "undefined") {
+      next();
+    } else {
+      this.#active--;
+    }
+  }
+}
+
+export default Scheduler;
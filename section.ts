@@ -0,0 +1,95 @@
+import { errorFromCode } from "./errors.ts";
+
+/** A section of a page, as MediaWiki numbers them for editing. */
+export interface Section {
+  /** Section number, which can be passed to `page.section()`. The lead section before the first heading is 0, and isn't listed. */
+  index: number;
+
+  /** Heading level, 1 through 6 */
+  level: number;
+
+  /** Text of the heading line, in wikitext */
+  heading: string;
+
+  /** Location of the heading, in bytes from the beginning of the page */
+  offset: number;
+
+  /** Content of the section in wikitext, including its heading and any subsections */
+  source: string;
+}
+
+/** Headings inside these can't start a section, so they're blanked out before looking for any. */
+const ignored =
+  /<!--[^]*?(?:-->|$)|<(nowiki|pre|syntaxhighlight|source|math)\b[^]*?(?:<\/\1\s*>|$)/gi;
+
+/** Finds the headings in some wikitext, with where they start in the string. */
+function headings(source: string) {
+  // Newlines are kept so that `^` and `$` still match in the same places
+  const masked = source.replace(
+    ignored,
+    (match) => match.replace(/[^\n]/g, " "),
+  );
+
+  // Unbalanced headings like `===Foo==` are still headings, of the lower level
+  return [...masked.matchAll(/^(={1,6})(.+)\1[ \t]*$/gm)].map((match) => ({
+    level: match[1].length,
+    heading: source.slice(
+      match.index! + match[1].length,
+      match.index! + match[0].trimEnd().length - match[1].length,
+    ).trim(),
+    start: match.index!,
+  }));
+}
+
+/** Finds where a section starts and ends in some wikitext. A section goes on until the next heading of the same level or higher. */
+function sectionRange(source: string, index: number): [number, number] {
+  const found = headings(source);
+
+  if (index === 0) {
+    return [0, found[0]?.start ?? source.length];
+  }
+
+  const heading = found[index - 1];
+  if (typeof heading === "undefined") {
+    throw errorFromCode("nosuchsection", `There is no section ${index}.`);
+  }
+
+  const next = found
+    .slice(index)
+    .find(({ level }) => level <= heading.level);
+
+  return [heading.start, next?.start ?? source.length];
+}
+
+/** Lists the sections in some wikitext. */
+export function parseSections(source: string): Section[] {
+  const encoder = new TextEncoder();
+
+  return headings(source).map(({ level, heading, start }, i) => ({
+    index: i + 1,
+    level,
+    heading,
+    offset: encoder.encode(source.slice(0, start)).length,
+    source: source.slice(...sectionRange(source, i + 1)).trimEnd(),
+  }));
+}
+
+/**
+ * Replaces a section in some wikitext with whatever `replace` returns for it, the same way `action=edit` does with `section`.
+ *
+ * The section is passed without its trailing whitespace, and is kept separated from the next one by a blank line.
+ */
+export function spliceSection(
+  source: string,
+  index: number,
+  replace: (section: string) => string,
+) {
+  const [start, end] = sectionRange(source, index);
+  const before = source.slice(0, start);
+  const after = source.slice(end);
+  const section = replace(source.slice(start, end).trimEnd());
+
+  return after === ""
+    ? before + section
+    : before + section.trimEnd() + "\n\n" + after;
+}
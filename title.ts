@@ -0,0 +1,169 @@
+import { errorFromCode } from "./errors.ts";
+
+/** A [namespace](https://www.mediawiki.org/wiki/Manual:Namespace) on a wiki, from `meta=siteinfo`. */
+export interface Namespace {
+  /** Namespace identifier. Talk namespaces are odd, and come straight after their subject namespace. */
+  id: number;
+
+  /** The namespace's name on this wiki, e.g. `Fichier`. This is an empty string for the main namespace. */
+  name: string;
+
+  /** The namespace's English name, which also works on any wiki, e.g. `File` */
+  canonical?: string;
+
+  /** Other names for the namespace, e.g. `Image` */
+  aliases: string[];
+
+  /** Whether the first letter of titles is always capitalised (`first-letter`), or titles are entirely case-sensitive */
+  case: "first-letter" | "case-sensitive";
+
+  /** Whether pages in the namespace can have subpages */
+  subpages: boolean;
+}
+
+/** Converts a title into the URL-friendly format the REST API calls its key, with underscores instead of spaces. */
+export function titleKey(title: string) {
+  return title.replaceAll(" ", "_");
+}
+
+/** Converts a title into a path segment for the REST API, so that characters like `?`, `#` and `/` don't break the URL. */
+export function titlePath(title: string) {
+  return encodeURIComponent(titleKey(title));
+}
+
+/** Characters which can never be in titles */
+const illegal = /[#<>\[\]|{}]/;
+
+/** Makes a namespace name comparable with however it's been written in a title. */
+function namespaceKey(name: string) {
+  return name.replaceAll("_", " ").toLowerCase();
+}
+
+/**
+ * A page title, split up into its namespace and the rest of it, and normalised the way MediaWiki does it.
+ *
+ * Create one using `Title.parse()` or `wiki.title()`, since the namespaces differ between wikis.
+ */
+export class Title {
+  constructor(
+    /** All of the wiki's namespaces, for finding talk pages and such */
+    protected namespaces: Namespace[],
+    /** The namespace the page is in */
+    public namespace: Namespace,
+    /** The title without its namespace, with spaces instead of underscores */
+    public text: string,
+    /** The section the title links to, if there's a `#` in it */
+    public fragment?: string,
+  ) {}
+
+  /**
+   * Normalises a title, like MediaWiki does before looking it up.
+   *
+   * Underscores become spaces, namespace names and aliases are replaced with the namespace's proper name, and the first letter is capitalised if the namespace does that.
+   * @param defaultNamespace The namespace to use if the title doesn't have one, e.g. 6 for files
+   */
+  static parse(
+    title: string,
+    namespaces: Namespace[],
+    defaultNamespace = 0,
+  ): Title {
+    let text = title.replaceAll("_", " ").replace(/\s+/g, " ").trim();
+
+    let fragment: string | undefined;
+    const hash = text.indexOf("#");
+    if (hash !== -1) {
+      fragment = text.slice(hash + 1).trim();
+      text = text.slice(0, hash).trim();
+    }
+
+    let namespace = namespaces.find(({ id }) => id === defaultNamespace);
+
+    // A leading colon means the title doesn't get the default namespace, but it can still have a namespace of its own
+    if (text.startsWith(":")) {
+      text = text.slice(1).trim();
+      namespace = namespaces.find(({ id }) => id === 0);
+    }
+
+    const colon = text.indexOf(":");
+    if (colon !== -1) {
+      const prefix = namespaceKey(text.slice(0, colon).trim());
+      const prefixed = namespaces.find((namespace) =>
+        namespace.id !== 0 &&
+        [namespace.name, namespace.canonical, ...namespace.aliases]
+          .some((name) =>
+            typeof name !== "undefined" && namespaceKey(name) === prefix
+          )
+      );
+
+      if (typeof prefixed !== "undefined") {
+        namespace = prefixed;
+        text = text.slice(colon + 1).trim();
+      }
+    }
+
+    if (
+      typeof namespace === "undefined" || text === "" || illegal.test(text)
+    ) {
+      throw errorFromCode("invalidtitle", `Bad title "${title}".`);
+    }
+
+    if (namespace.case === "first-letter") {
+      // Split it up by code points, so that surrogate pairs stay together
+      const [first, ...rest] = text;
+      text = first.toUpperCase() + rest.join("");
+    }
+
+    return new Title(namespaces, namespace, text, fragment);
+  }
+
+  /** The full title, including the namespace */
+  get prefixed() {
+    return this.namespace.name === ""
+      ? this.text
+      : `${this.namespace.name}:${this.text}`;
+  }
+
+  /** The full title in URL-friendly format, with underscores instead of spaces */
+  get key() {
+    return titleKey(this.prefixed);
+  }
+
+  /** The full title encoded as a path segment for the REST API */
+  get path() {
+    return titlePath(this.prefixed);
+  }
+
+  /** Whether the title is in a talk namespace */
+  get isTalk() {
+    return this.namespace.id > 0 && this.namespace.id % 2 === 1;
+  }
+
+  /** The title of the talk page for this one, or `null` if its namespace doesn't have talk pages, like `Special` */
+  talk(): Title | null {
+    if (this.isTalk) return this;
+
+    const namespace = this.namespaces.find(({ id }) =>
+      id === this.namespace.id + 1
+    );
+    if (this.namespace.id < 0 || typeof namespace === "undefined") return null;
+
+    return new Title(this.namespaces, namespace, this.text);
+  }
+
+  /** The title of the page this one is the talk page of, or this one if it isn't a talk page */
+  subject(): Title {
+    if (!this.isTalk) return this;
+
+    const namespace = this.namespaces.find(({ id }) =>
+      id === this.namespace.id - 1
+    )!;
+
+    return new Title(this.namespaces, namespace, this.text);
+  }
+
+  toString() {
+    return this.prefixed;
+  }
+}
+
+export default Title;
@@ -0,0 +1,90 @@
+import * as rt from "https://stupid-extensions.com/denopkg.com/Liamolucko/runtypes@export-type/src/index.ts";
+import { ParseTextResponse } from "./actions-types.ts";
+import { LintError } from "./rest-types.ts";
+import { titlePath } from "./title.ts";
+import Wiki from "./wiki.ts";
+
+/** Options for transforming content in the context of a page */
+export interface TransformOptions {
+  /** The title of the page the content is from, which affects things like relative links and `{{PAGENAME}}` */
+  title?: string;
+
+  /** The revision the content is based on, which lets Parsoid keep the original formatting of anything which didn't change. Needs a title. */
+  revision?: number;
+}
+
+/**
+ * Converts content between wikitext and [Parsoid HTML](https://www.mediawiki.org/wiki/Specs/HTML).
+ *
+ * This uses the REST API's `transform/` endpoints, even on Action API wikis, since the Action API can't convert HTML back into wikitext.
+ */
+export class Transform {
+  constructor(protected wiki: Wiki) {}
+
+  /** Converts Parsoid HTML into wikitext. */
+  htmlToWikitext(html: string, options: TransformOptions = {}) {
+    return this.wiki.requestRaw({
+      method: "POST",
+      api: "rest",
+      path: `transform/html/to/wikitext${path(options)}`,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ html }),
+    }).then((response) => response.text());
+  }
+
+  /**
+   * Converts wikitext into Parsoid HTML.
+   *
+   * On Action API wikis this uses `action=parse` instead, which returns the legacy parser's HTML if the wiki is too old for Parsoid.
+   */
+  wikitextToHtml(wikitext: string, options: TransformOptions = {}) {
+    if (this.wiki.polyfilled) {
+      return this.wiki.request({
+        method: "POST",
+        params: {
+          action: "parse",
+          text: wikitext,
+          title: options.title,
+          revid: options.revision,
+          contentmodel: "wikitext",
+          prop: "text",
+          parsoid: "1",
+        },
+      })
+        .then(ParseTextResponse.check)
+        .then(({ parse }) => parse.text);
+    } else {
+      return this.wiki.requestRaw({
+        method: "POST",
+        path: `transform/wikitext/to/html${path(options)}`,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ wikitext }),
+      }).then((response) => response.text());
+    }
+  }
+
+  /** Lists the problems [Linter](https://www.mediawiki.org/wiki/Extension:Linter) finds in some wikitext. */
+  lint(wikitext: string, options: TransformOptions = {}): Promise<LintError[]> {
+    return this.wiki.request({
+      method: "POST",
+      api: "rest",
+      path: `transform/wikitext/to/lint${path(options)}`,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ wikitext }),
+    })
+      .then(rt.Array(LintError).check);
+  }
+}
+
+/** Returns the end of the path for the title and revision, if there are any. */
+function path({ title, revision }: TransformOptions) {
+  if (typeof title === "undefined") {
+    return "";
+  } else if (typeof revision === "undefined") {
+    return `/${titlePath(title)}`;
+  } else {
+    return `/${titlePath(title)}/${revision}`;
+  }
+}
+
+export default Transform;
@@ -0,0 +1,123 @@
+import type { Limits } from "./scheduler.ts";
+
+/** How failed requests are retried. */
+export interface RetryPolicy {
+  /** The maximum number of times to retry a request. Default: 3 */
+  retries?: number;
+
+  /** How many milliseconds to wait before the first retry. This doubles after every retry. Default: 1000 */
+  delay?: number;
+
+  /** The longest to ever wait between retries, in milliseconds. Default: 60000 */
+  maxDelay?: number;
+}
+
+/** Options for how a wiki makes its HTTP requests. */
+export interface Transport {
+  /** The `fetch` implementation to use. Defaults to the global `fetch`. */
+  fetch?: (request: Request) => Promise<Response>;
+
+  /**
+   * Headers to send with every request.
+   *
+   * Wikimedia wikis require a descriptive `User-Agent` with contact information, see the [User-Agent policy](https://meta.wikimedia.org/wiki/User-Agent_policy).
+   */
+  headers?: Record<string, string>;
+
+  /** How many milliseconds to wait for a response before giving up. By default it waits forever. */
+  timeout?: number;
+
+  /**
+   * How to retry requests which fail temporarily, because of rate limiting, replication lag or the server being unavailable.
+   * Set this to `false` to never retry.
+   */
+  retry?: RetryPolicy | false;
+
+  /**
+   * The [`maxlag`](https://www.mediawiki.org/wiki/Manual:Maxlag_parameter) to send with Action API requests, in seconds.
+   * If the wiki's replication lag is higher than this, the request is retried later. Set this to `false` to not send it. Default: 5
+   */
+  maxlag?: number | false;
+
+  /**
+   * Limits on how many requests are made at once and how often, to follow the wiki's etiquette.
+   * Reads are `GET` requests and edits are everything else, including logging in.
+   *
+   * By default, up to 5 reads can be made at once, and edits are made one at a time.
+   */
+  limits?: {
+    read?: Limits;
+    edit?: Limits;
+  };
+
+  /** Called before every request is sent. If it returns a request, that's sent instead. */
+  onRequest?: (
+    request: Request,
+  ) => Request | void | Promise<Request | void>;
+
+  /** Called after every response is received, before it's used. */
+  onResponse?: (response: Response, request: Request) => void | Promise<void>;
+}
+
+/** Makes a HTTP request with a transport's settings. */
+export async function send(
+  transport: Transport,
+  input: string | URL,
+  init: RequestInit = {},
+): Promise<Response> {
+  const headers = new Headers(transport.headers);
+  new Headers(init.headers).forEach((value, key) => headers.set(key, value));
+
+  const signals = [
+    init.signal,
+    typeof transport.timeout !== "undefined"
+      ? AbortSignal.timeout(transport.timeout)
+      : undefined,
+  ].filter((signal): signal is AbortSignal => signal instanceof AbortSignal);
+
+  let request = new Request(input, {
+    ...init,
+    headers,
+    signal: signals.length > 1 ? AbortSignal.any(signals) : signals[0],
+  });
+  request = await transport.onRequest?.(request) ?? request;
+
+  const response = await (transport.fetch ?? fetch)(request);
+  await transport.onResponse?.(response, request);
+
+  return response;
+}
+
+/**
+ * Works out how long to wait before retrying a request, in milliseconds.
+ *
+ * If the server sent a `Retry-After` header that's used, otherwise it's an exponential backoff with jitter.
+ * @param attempt How many times the request has already been retried
+ */
+export function retryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  response?: Response,
+): number {
+  const maxDelay = policy.maxDelay ?? 60000;
+  const retryAfter = response?.headers.get("Retry-After");
+
+  if (retryAfter !== null && typeof retryAfter !== "undefined") {
+    // It can either be a number of seconds or a date
+    const delay = /^\d+$/.test(retryAfter)
+      ? Number(retryAfter) * 1000
+      : Date.parse(retryAfter) - Date.now();
+
+    if (!isNaN(delay)) return Math.min(Math.max(delay, 0), maxDelay);
+  }
+
+  const delay = Math.min((policy.delay ?? 1000) * 2 ** attempt, maxDelay);
+
+  // The jitter stops lots of clients which failed at the same time from all retrying at the same time
+  return delay / 2 + Math.random() * delay / 2;
+}
+
+/** Resolves after the given number of milliseconds. */
+export function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
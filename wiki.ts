@@ -1,13 +1,39 @@
 import * as rt from "https://stupid-extensions.com/denopkg.com/Liamolucko/runtypes@export-type/src/index.ts";
 import {
   ActionsError,
+  ActionsInvalidPage,
+  ActionsMissingPage,
   ActionsPage,
+  ActionsPageWithContent,
   ActionsRevision,
+  ActionsThumbnail,
+  ClientLoginResponse,
   LegacyActionsError,
-  QueryImagesResponse,
+  LoginResponse,
+  QueryImageInfoResponse,
+  QueryInterwikiMapResponse,
+  QueryNamespacesResponse,
   QueryPageResponse,
-  QueryRevisionSizeResponse,
+  QueryPrefixSearchResponse,
+  QueryRevisionResponse,
+  QuerySearchResponse,
+  QueryTokensResponse,
+  QueryUserInfoResponse,
 } from "./actions-types.ts";
+import { AuthProvider, StaticToken } from "./auth.ts";
+import { Batcher } from "./batch.ts";
+import { Cache, longTtl } from "./cache.ts";
+import { CookieJar } from "./cookies.ts";
+import { Scheduler } from "./scheduler.ts";
+import { Namespace, Title, titleKey, titlePath } from "./title.ts";
+import { Transform } from "./transform.ts";
+import { retryDelay, send, sleep, Transport } from "./transport.ts";
+import {
+  BadTokenError,
+  createError,
+  errorFromCode,
+  LoginError,
+} from "./errors.ts";
 import { AsyncPage } from "./page.ts";
 import {
   ApiError,
@@ -28,7 +54,9 @@ function AsyncProxy<T>(target: Promise<T>): AsyncProxy<T> {
         prop === "then" || prop === "catch" || prop === "finally" ||
         prop === Symbol.toStringTag
       ) {
-        return target[prop as keyof typeof target];
+        const value = target[prop as keyof typeof target];
+        // Promise methods throw if they're called on the proxy instead of the promise
+        return typeof value === "function" ? value.bind(target) : value;
       } else {
         return target.then((value) => value[prop as keyof T]);
       }
@@ -39,21 +67,105 @@ function AsyncProxy<T>(target: Promise<T>): AsyncProxy<T> {
 function handleError<T>(
   response: T | ApiError | ActionsError | LegacyActionsError,
 ) {
-  if (ApiError.guard(response)) {
-    throw new Error(
-      response.messageTranslations?.["en"] ??
-        response.message ??
-        response.httpCode.toString(),
-    );
-  } else if (ActionsError.guard(response)) {
-    throw new Error(response.errors[0].text);
-  } else if (LegacyActionsError.guard(response)) {
-    throw new Error(response.error.info);
+  if (
+    ApiError.guard(response) || ActionsError.guard(response) ||
+    LegacyActionsError.guard(response)
+  ) {
+    throw createError(response);
   } else {
     return response;
   }
 }
 
+/** The Action API error codes which mean a request can be tried again later. */
+const retryCodes = ["maxlag", "ratelimited", "readonly"];
+
+/**
+ * Checks whether a failed request is worth trying again.
+ *
+ * Requests which change things are only retried if the wiki definitely didn't do anything, since otherwise an edit could get made twice.
+ */
+function shouldRetry(response: Response, method: string) {
+  // The Action API returns errors with a 200, but it also puts the error code in a header
+  const code = response.headers.get("MediaWiki-API-Error");
+
+  if (response.status === 429 || retryCodes.includes(code ?? "")) {
+    return true;
+  } else {
+    return method === "GET" && [500, 502, 503, 504].includes(response.status);
+  }
+}
+
+/** Gets the text out of an Action API message, which is an object when `errorformat` is set. */
+function messageText(message?: string | { text: string }) {
+  return typeof message === "object" ? message.text : message;
+}
+
+const thumbnailMimetypes: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  tif: "image/tiff",
+  tiff: "image/tiff",
+};
+
+/** Converts a thumbnail from `prop=pageimages` into the format the REST API uses for search results. */
+function convertThumbnail(
+  thumbnail: ActionsThumbnail,
+): NonNullable<SearchResult["thumbnail"]> {
+  const extension = thumbnail.source.split(".").pop()?.toLowerCase() ?? "";
+
+  return {
+    // The Action API doesn't tell us this, but thumbnails always have the extension of their format
+    mimetype: thumbnailMimetypes[extension] ?? "application/octet-stream",
+    size: null,
+    width: thumbnail.width,
+    height: thumbnail.height,
+    duration: null,
+    url: thumbnail.source.split(/:(?=\/\/)/)[1],
+  };
+}
+
+/** Options for a request to a wiki's API */
+export interface RequestOptions {
+  method?: string;
+  path?: string;
+  /** Parameters for the query string, or the body of Action API `POST` requests. `true` is sent as `1`, and `false` is left out like `undefined`, the way the Action API expects. */
+  params?: Record<string, string | number | boolean | string[] | undefined>;
+  headers?: Record<string, string>;
+  body?: string;
+
+  /** Which API to send the request to. Defaults to the one the wiki was created with. */
+  api?: "rest" | "action";
+
+  /**
+   * Set this to cache the response of a `GET` request. For any other request, the pages it lists are thrown out of the cache once it succeeds.
+   */
+  cache?: {
+    /** How long to keep the response for, in milliseconds. Defaults to the cache's TTL. */
+    ttl?: number;
+
+    /** The titles of the pages the request is about */
+    pages?: string[];
+  };
+}
+
+/** Creates a key for a request which is the same for all identical requests. */
+function cacheKey(
+  { path = "", params = {}, api }: RequestOptions,
+  polyfilled: boolean,
+) {
+  return `request:${api ?? (polyfilled ? "action" : "rest")} ${path} ${
+    JSON.stringify(
+      Object.entries(params)
+        .filter(([, value]) => typeof value !== "undefined" && value !== false)
+        .sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0),
+    )
+  }`;
+}
+
 /**
  * A wrapper object for a wiki at a given url.
  */
@@ -61,13 +173,57 @@ export class Wiki {
   apiUrl: URL;
   polyfilled: boolean;
 
+  /** The URL of the wiki's Action API, which REST wikis still need for some things, like tokens. */
+  actionApiUrl: URL;
+
+  /** The URL of the wiki's REST API, which Action API wikis might still have for some things, like transforms. */
+  restApiUrl: URL;
+
+  /** Where OAuth access tokens come from, if OAuth is being used */
+  auth?: AuthProvider;
+
+  /** How HTTP requests are made */
+  transport: Transport;
+
+  /** Where responses are cached, if anywhere. Caching is off unless this is set, e.g. to `new Cache()`, and responses are never cached when OAuth is being used. */
+  cache?: Cache;
+
+  /** Converts content between wikitext and HTML */
+  transform = new Transform(this);
+
+  #tokens = new Map<string, Promise<string>>();
+  #cookies = new CookieJar();
+  #readScheduler: Scheduler;
+  #editScheduler: Scheduler;
+  #siblings = new Map<string, Wiki>();
+  #namespaces?: Promise<Namespace[]>;
+  #interwikiMap?: Promise<
+    Map<string, QueryInterwikiMapResponse["query"]["interwikimap"][number]>
+  >;
+
+  /** The name of the user who logged in with `login()`, so that their responses aren't cached for anyone else */
+  #user?: string;
+
   /**
    * Creates a wiki object from its API url
    * @param url The path to the wiki's API, e.g. `https://en.wikipedia.org/w/rest.php/v1/`.
-   * @param token OAuth token to use for authentication
+   * @param auth OAuth access token to use for authentication, or a provider to get them from, like `OAuth2`
+   * @param transport Options for how HTTP requests are made, like a custom `fetch` or a `User-Agent`
    */
-  constructor(url: string | URL, public token?: string) {
+  constructor(
+    url: string | URL,
+    auth?: string | AuthProvider,
+    transport: Transport = {},
+  ) {
     this.apiUrl = url instanceof URL ? url : new URL(url);
+    this.auth = typeof auth === "string" ? new StaticToken(auth) : auth;
+    this.transport = transport;
+    this.#readScheduler = new Scheduler(
+      transport.limits?.read ?? { concurrency: 5 },
+    );
+    this.#editScheduler = new Scheduler(
+      transport.limits?.edit ?? { concurrency: 1 },
+    );
 
     if (this.apiUrl.pathname.endsWith("rest.php/v1")) {
       this.apiUrl.pathname += "/";
@@ -76,6 +232,144 @@ export class Wiki {
     }
 
     this.polyfilled = this.apiUrl.pathname.endsWith("api.php");
+
+    // `rest.php` and `api.php` are always in the same directory
+    this.actionApiUrl = this.polyfilled
+      ? this.apiUrl
+      : new URL("../../api.php", this.apiUrl);
+    this.restApiUrl = this.polyfilled
+      ? new URL("rest.php/v1/", this.apiUrl)
+      : this.apiUrl;
+  }
+
+  /**
+   * Batches up requests for revisions by ID on the Action API, so that they can be fetched up to 50 at a time.
+   */
+  revisions = new Batcher<
+    number,
+    { revision: ActionsRevision; page: ActionsPage }
+  >((ids) => this.loadRevisions(ids), {
+    missing: (id) =>
+      errorFromCode("nosuchrevid", `There is no revision with ID ${id}.`),
+  });
+
+  /**
+   * Batches up requests for the latest revisions of pages by title on the Action API, so that they can be fetched up to 50 at a time.
+   */
+  pages = new Batcher<
+    string,
+    {
+      page: ActionsPageWithContent;
+      rightsinfo: QueryPageResponse["query"]["rightsinfo"];
+    }
+  >((titles) => this.loadPages(titles), {
+    missing: (title) =>
+      errorFromCode("missingtitle", `The page ${title} doesn't exist.`),
+  });
+
+  private async loadRevisions(ids: number[]) {
+    const { query } = await this.request({
+      api: "action",
+      params: {
+        action: "query",
+        revids: ids.map((id) => id.toString()),
+        prop: "revisions",
+        rvprop: [
+          "ids",
+          "timestamp",
+          "flags",
+          "size",
+          "comment",
+          "user",
+          "userid",
+          "tags",
+        ],
+      },
+      cache: { ttl: longTtl },
+    }).then(QueryRevisionResponse.check);
+
+    const revisions = new Map<
+      number,
+      { revision: ActionsRevision; page: ActionsPage }
+    >();
+    for (const page of query.pages ?? []) {
+      // Looking up revisions never gives missing pages, but the schema allows them for histories
+      if (!("revisions" in page)) continue;
+
+      const { pageid, title } = page;
+      for (const revision of page.revisions) {
+        revisions.set(revision.revid, { revision, page: { pageid, title } });
+      }
+    }
+
+    return revisions;
+  }
+
+  private async loadPages(titles: string[]) {
+    const pages = new Map<
+      string,
+      {
+        page: ActionsPageWithContent;
+        rightsinfo: QueryPageResponse["query"]["rightsinfo"];
+      } | Error
+    >();
+    const normalized: { from: string; to: string }[] = [];
+    let continueParams = {};
+
+    while (true) {
+      const response = await this.request({
+        api: "action",
+        params: {
+          action: "query",
+          titles,
+          prop: ["revisions", "info"],
+          rvprop: ["ids", "timestamp", "content"],
+          meta: "siteinfo",
+          siprop: "rightsinfo",
+          ...continueParams,
+        },
+        cache: { pages: titles },
+      }).then(QueryPageResponse.check);
+      const { query } = response;
+
+      for (const page of query.pages) {
+        if (ActionsMissingPage.guard(page)) {
+          continue;
+        } else if (ActionsInvalidPage.guard(page)) {
+          // Only this title is rejected, rather than everything else batched with it
+          pages.set(
+            page.title,
+            errorFromCode(
+              "invalidtitle",
+              page.invalidreason ?? `Bad title "${page.title}".`,
+            ),
+          );
+        } else if ("revisions" in page) {
+          // Pages whose content didn't fit in the response don't have any revisions yet, and come in a later one
+          try {
+            pages.set(String(page.title), {
+              page: ActionsPageWithContent.check(page),
+              rightsinfo: query.rightsinfo,
+            });
+          } catch (error) {
+            pages.set(String(page.title), error as Error);
+          }
+        }
+      }
+
+      normalized.push(...query.normalized ?? []);
+
+      if (typeof response.continue === "undefined") break;
+      continueParams = response.continue;
+    }
+
+    // The titles that were asked for might not be the same as the ones that came back
+    for (const { from, to } of normalized) {
+      const page = pages.get(to);
+      if (typeof page !== "undefined") pages.set(from, page);
+    }
+
+    return pages;
   }
 
   async convertRevision(revision: ActionsRevision): Promise<Revision>;
@@ -98,98 +392,419 @@ export class Wiki {
         name: revision.user,
       },
       delta: revision.parentid !== 0
-        ? await this.request({
-          params: {
-            action: "query",
-            revids: revision.parentid,
-            prop: "revisions",
-            rvprop: "size",
-          },
-        })
-          .then(QueryRevisionSizeResponse.check)
-          .then(({ query }) => revision.size - query.pages[0].revisions[0].size)
+        ? revision.size -
+          (await this.revisions.get(revision.parentid)).revision.size
         : null,
       ...page && { page: { id: page.pageid, title: page.title } },
     };
   }
 
-  /** 
-   * Make a HTTP request to the API.
+  /**
+   * Make a HTTP request to the API, and return the parsed response.
+   *
+   * By default this goes to whichever API the wiki was created with, but passing `api: "action"` makes it go to the Action API even if it's a REST wiki.
    */
-  request({ method = "GET", path = "", params = {}, headers, body }: {
-    method?: string;
-    path?: string;
-    params?: Record<string, string | number | string[] | undefined>;
-    headers?: Record<string, string>;
-    body?: string;
-  }) {
-    return fetch(
-      new URL(
-        `${path}?${
-          new URLSearchParams(
-            Object.fromEntries(
-              Object.entries(
-                this.polyfilled
-                  ? {
-                    ...params,
-                    format: "json",
-                    formatversion: "2",
-                    errorformat: "plaintext",
-                  }
-                  : params,
-              )
-                .filter((
-                  param,
-                ): param is [string, string | number | string[]] =>
-                  typeof param[1] !== "undefined"
-                )
-                .map(([key, value]) => [
-                  key,
-                  typeof value === "string" ? value : typeof value === "number"
-                    ? value.toString()
-                    : value.join("|"),
-                ]),
-            ),
-          ).toString()
-        }`,
-        this.apiUrl,
+  async request({ cache, ...options }: RequestOptions) {
+    const method = options.method ?? "GET";
+
+    // There's no telling who an access token belongs to, so responses made with one could end up being read by someone else
+    const key = method === "GET" && typeof cache !== "undefined" &&
+        typeof this.auth === "undefined"
+      ? `${this.apiUrl.href} ${this.#user ?? ""} ${
+        cacheKey(options, this.polyfilled)
+      }`
+      : undefined;
+
+    if (typeof key !== "undefined") {
+      const cached = await this.cache?.get(key);
+      if (typeof cached !== "undefined") return cached;
+    }
+
+    const response = await this.requestRaw(options);
+    const value = handleError(await response.json());
+
+    if (typeof key !== "undefined") {
+      await this.cache?.set(key, value, { ...cache, site: this.apiUrl.href });
+    } else if (method !== "GET") {
+      for (const title of cache?.pages ?? []) {
+        await this.cache?.invalidate(this.apiUrl.href, title);
+      }
+    }
+
+    return value;
+  }
+
+  /**
+   * Make a HTTP request to the API, and return the response without parsing it. This is for endpoints which don't return JSON, like `page/{title}/html`.
+   *
+   * Errors are still thrown if the response isn't successful.
+   */
+  async requestRaw({
+    method = "GET",
+    path = "",
+    params = {},
+    headers,
+    body,
+    api = this.polyfilled ? "action" : "rest",
+  }: RequestOptions): Promise<Response> {
+    const search = new URLSearchParams(
+      Object.fromEntries(
+        Object.entries(
+          api === "action"
+            ? {
+              maxlag: this.transport.maxlag === false
+                ? undefined
+                : this.transport.maxlag ?? 5,
+              ...params,
+              format: "json",
+              formatversion: "2",
+              errorformat: "plaintext",
+            }
+            : params,
+        )
+          .filter((
+            param,
+          ): param is [string, string | number | true | string[]] =>
+            typeof param[1] !== "undefined" && param[1] !== false
+          )
+          .map(([key, value]) => [
+            key,
+            typeof value === "string"
+              ? value
+              : typeof value === "number"
+              ? value.toString()
+              : value === true
+              ? "1"
+              : value.join("|"),
+          ]),
       ),
-      {
-        body,
-        headers,
-        method,
+    );
+
+    const url = new URL(
+      path,
+      api === "action" ? this.actionApiUrl : this.restApiUrl,
+    );
+
+    // The Action API won't accept tokens in the query string, so they have to go in the body along with everything else.
+    const form = api === "action" && method === "POST" &&
+      typeof body === "undefined";
+    if (!form) url.search = search.toString();
+
+    let token: string | undefined;
+    const send = async () => {
+      token = await this.auth?.getToken(this);
+      const cookie = this.#cookies.header();
+
+      const scheduler = method === "GET"
+        ? this.#readScheduler
+        : this.#editScheduler;
+
+      const response = await scheduler.run(() =>
+        this.fetch(url, {
+          body: form ? search : body,
+          headers: {
+            ...(typeof token !== "undefined" &&
+              { "Authorization": `Bearer ${token}` }),
+            ...(typeof cookie !== "undefined" && { "Cookie": cookie }),
+            ...headers,
+          },
+          method,
+        })
+      );
+
+      this.#cookies.store(response.headers);
+      return response;
+    };
+
+    const retry = this.transport.retry || {};
+    const retries = this.transport.retry === false ? 0 : retry.retries ?? 3;
+
+    let response: Response;
+    for (let attempt = 0;; attempt++) {
+      try {
+        response = await send();
+
+        // The access token has probably expired, so get a new one and try again
+        if (
+          response.status === 401 && typeof token !== "undefined" &&
+          await this.auth?.refresh?.(this, token)
+        ) {
+          // The body has to be read or cancelled, otherwise the connection is held open
+          await response.body?.cancel();
+          response = await send();
+        }
+      } catch (error) {
+        // Network errors are worth retrying, as long as nothing would be changed twice
+        if (
+          error instanceof TypeError && method === "GET" && attempt < retries
+        ) {
+          await sleep(retryDelay(retry, attempt));
+          continue;
+        } else {
+          throw error;
+        }
+      }
+
+      if (attempt < retries && shouldRetry(response, method)) {
+        await response.body?.cancel();
+        await sleep(retryDelay(retry, attempt, response));
+      } else {
+        break;
+      }
+    }
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => undefined);
+      handleError(body);
+
+      // It wasn't an API error, so it probably came from a proxy or something
+      throw createError({
+        httpCode: response.status,
+        httpReason: response.statusText,
+      });
+    }
+
+    return response;
+  }
+
+  /**
+   * Make a HTTP request using the wiki's transport, without any authentication or error handling.
+   */
+  fetch(input: string | URL, init?: RequestInit): Promise<Response> {
+    return send(this.transport, input, init);
+  }
+
+  /**
+   * Gets a token from the Action API, which is cached until it's refreshed.
+   * @param type The type of token, e.g. `csrf`, `login` or `rollback`
+   * @param refresh Whether to get a new token even if there's already one cached
+   */
+  getToken(type = "csrf", refresh = false): Promise<string> {
+    let token = this.#tokens.get(type);
+
+    if (refresh || typeof token === "undefined") {
+      token = this.request({
+        api: "action",
+        params: { action: "query", meta: "tokens", type },
+      })
+        .then(QueryTokensResponse.check)
+        .then(({ query }) => {
+          const token = query.tokens[`${type}token`];
+          if (typeof token === "undefined") {
+            throw new Error(`The wiki didn't return a ${type} token`);
+          }
+          return token;
+        });
+
+      // Don't cache failures
+      token.catch(() => this.#tokens.delete(type));
+      this.#tokens.set(type, token);
+    }
+
+    return token;
+  }
+
+  /**
+   * Makes a request which needs a CSRF token, getting one if there isn't one cached.
+   * If the token has expired, a new one is fetched and the request is tried again once.
+   * @param type The type of token, for the few actions which need something other than a CSRF token, like `rollback`
+   */
+  async withCsrfToken<T>(
+    request: (token: string) => Promise<T>,
+    type = "csrf",
+  ): Promise<T> {
+    try {
+      return await request(await this.getToken(type));
+    } catch (error) {
+      if (error instanceof BadTokenError) {
+        return request(await this.getToken(type, true));
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  // Authentication
+
+  /**
+   * Logs in with a username and password, and keeps the session's cookies for all future requests.
+   *
+   * This is meant for [bot passwords](https://www.mediawiki.org/wiki/Manual:Bot_passwords), but if the wiki refuses to let a main account log in with `action=login`, it falls back to `action=clientlogin`.
+   * @returns The user who is now logged in
+   */
+  async login(username: string, password: string) {
+    const { login } = await this.request({
+      method: "POST",
+      api: "action",
+      params: {
+        action: "login",
+        lgname: username,
+        lgpassword: password,
+        lgtoken: await this.getToken("login", true),
       },
-    )
-      .then((response) => response.json())
-      .then(handleError);
+    }).then(LoginResponse.check);
+
+    if (login.result === "Aborted") {
+      const { clientlogin } = await this.request({
+        method: "POST",
+        api: "action",
+        params: {
+          action: "clientlogin",
+          username,
+          password,
+          logintoken: await this.getToken("login", true),
+          // This is only used for redirect-based logins, but it's still required
+          loginreturnurl: new URL("/", this.actionApiUrl).href,
+        },
+      }).then(ClientLoginResponse.check);
+
+      if (clientlogin.status !== "PASS") {
+        throw new LoginError(
+          messageText(clientlogin.message) ?? clientlogin.status,
+          clientlogin.status,
+        );
+      }
+    } else if (login.result !== "Success") {
+      throw new LoginError(
+        messageText(login.reason) ?? login.result,
+        login.result,
+      );
+    }
+
+    // The old tokens were for the old session
+    this.#tokens.clear();
+
+    const user = await this.currentUser();
+    this.#user = user.name;
+
+    return user;
+  }
+
+  /** Logs out, and forgets the session's cookies. */
+  async logout() {
+    await this.withCsrfToken((token) =>
+      this.request({
+        method: "POST",
+        api: "action",
+        params: { action: "logout", token },
+      })
+    );
+
+    this.#cookies.clear();
+    this.#tokens.clear();
+    this.#user = undefined;
+  }
+
+  /** Returns information about the user who is currently logged in, or the anonymous user if nobody is. */
+  currentUser(): Promise<{
+    id: number;
+    name: string;
+    anonymous: boolean;
+    groups: string[];
+    rights: string[];
+  }> {
+    return this.request({
+      api: "action",
+      params: {
+        action: "query",
+        meta: "userinfo",
+        uiprop: ["groups", "rights"],
+      },
+    })
+      .then(QueryUserInfoResponse.check)
+      .then(({ query: { userinfo } }) => ({
+        id: userinfo.id,
+        name: userinfo.name,
+        anonymous: userinfo.anon ?? false,
+        groups: userinfo.groups ?? [],
+        rights: userinfo.rights ?? [],
+      }));
   }
 
   // Polyfills
 
-  /** WIP */
-  private searchPolyfill(
+  private async searchPolyfill(
     q: string,
-    limit: number | string = 50,
-  ): Promise<{ pages: SearchResult[] }> {
-    return this.request({
+    limit: number,
+  ): Promise<SearchResult[]> {
+    // `list=search` gives us the order and snippets, and `generator=search` lets us get the page props & images for the same results in one request.
+    const { query } = await this.request({
       params: {
         action: "query",
         list: "search",
         srsearch: q,
         srlimit: limit,
+        srprop: "snippet",
+        generator: "search",
+        gsrsearch: q,
+        gsrlimit: limit,
+        prop: ["pageprops", "pageimages"],
+        ppprop: "wikibase-shortdesc",
+        piprop: "thumbnail",
+        pithumbsize: 60,
+        pilimit: limit,
       },
+    }).then(QuerySearchResponse.check);
+
+    return query.search.map((result) => {
+      const page = query.pages?.find((page) => page.pageid === result.pageid);
+
+      return {
+        id: result.pageid,
+        key: titleKey(result.title),
+        title: result.title,
+        excerpt: result.snippet,
+        description: page?.pageprops?.["wikibase-shortdesc"] ?? null,
+        thumbnail: typeof page?.thumbnail !== "undefined"
+          ? convertThumbnail(page.thumbnail)
+          : null,
+      };
     });
   }
 
+  private async completePolyfill(
+    q: string,
+    limit: number,
+  ): Promise<CompleteResult[]> {
+    const { query } = await this.request({
+      params: {
+        action: "query",
+        generator: "prefixsearch",
+        gpssearch: q,
+        gpslimit: limit,
+        prop: ["pageprops", "pageimages"],
+        ppprop: "wikibase-shortdesc",
+        piprop: "thumbnail",
+        pithumbsize: 60,
+        pilimit: limit,
+      },
+    }).then(QueryPrefixSearchResponse.check);
+
+    // Generators don't return pages in order, so they have to be sorted by their index
+    return (query?.pages ?? [])
+      .sort((a, b) => a.index - b.index)
+      .map((page) => ({
+        id: page.pageid,
+        key: titleKey(page.title),
+        title: page.title,
+        // The REST API just uses the title for this
+        excerpt: page.title,
+        description: page.pageprops?.["wikibase-shortdesc"] ?? null,
+        thumbnail: typeof page.thumbnail !== "undefined"
+          ? convertThumbnail(page.thumbnail)
+          : null,
+      }));
+  }
+
   private async filePolyfill(
-    title: string,
+    title: Title,
     thumbnails = true,
     thumbsize = 1000000,
   ) {
     const page = await this.request({
       params: {
         action: "query",
-        titles: title,
+        titles: title.prefixed,
         prop: ["imageinfo", "pageimages"],
         iiprop: [
           "timestamp",
@@ -198,13 +813,25 @@ export class Wiki {
           "size",
           "url",
           "mediatype",
+          "canonicaltitle",
         ],
+        // This is the size MediaWiki uses by default for previews on file description pages
+        iiurlwidth: 800,
+        iiurlheight: 600,
         piprop: ["thumbnail", "name", "original"],
         pithumbsize: thumbsize,
       },
-    }).then(QueryImagesResponse.check)
+    }).then(QueryImageInfoResponse.check)
       .then(({ query }) => query.pages[0]);
 
+    // The REST API gives a 404 for this
+    if (!("imageinfo" in page)) {
+      throw errorFromCode(
+        "missingfile",
+        `The file ${title.prefixed} doesn't exist.`,
+      );
+    }
+
     const imageInfo = page.imageinfo[0];
 
     const original = {
@@ -217,15 +844,24 @@ export class Wiki {
     };
 
     return {
-      title: (imageInfo.canonicaltitle ?? page.title).split(/File:/)[1],
+      // The REST API doesn't include the namespace
+      title: (await this.title(imageInfo.canonicaltitle ?? page.title)).text,
       file_description_url: imageInfo.descriptionurl.split(/:(?=\/\/)/)[1],
       latest: {
         timestamp: imageInfo.timestamp,
-        user: { id: imageInfo.userid, name: imageInfo.user },
+        user: { id: imageInfo.userid.toString(), name: imageInfo.user },
       },
 
-      // TODO: I couldn't figure out how to get this, so I'm just copying the original for now
-      preferred: original,
+      preferred: typeof imageInfo.thumburl !== "undefined"
+        ? {
+          ...original,
+          url: imageInfo.thumburl.split(/:(?=\/\/)/)[1],
+          ...(original.width !== null && {
+            width: imageInfo.thumbwidth ?? original.width,
+            height: imageInfo.thumbheight ?? original.height,
+          }),
+        }
+        : original,
 
       original,
 
@@ -258,7 +894,7 @@ export class Wiki {
     }
 
     if (this.polyfilled) {
-      throw new Error("TODO");
+      return this.searchPolyfill(q, limit);
     } else {
       return this.request({
         path: "search/page",
@@ -282,10 +918,117 @@ export class Wiki {
       );
     }
 
-    return this.request({
-      path: "search/title",
-      params: { q, limit },
-    }).then(({ pages }) => rt.Array(CompleteResult).check(pages));
+    if (this.polyfilled) {
+      return this.completePolyfill(q, limit);
+    } else {
+      return this.request({
+        path: "search/title",
+        params: { q, limit },
+      }).then(({ pages }) => rt.Array(CompleteResult).check(pages));
+    }
+  }
+
+  /** Lists the wiki's namespaces, which are only fetched once. */
+  namespaces(): Promise<Namespace[]> {
+    if (typeof this.#namespaces === "undefined") {
+      this.#namespaces = this.request({
+        api: "action",
+        params: {
+          action: "query",
+          meta: "siteinfo",
+          siprop: ["namespaces", "namespacealiases"],
+        },
+      })
+        .then(QueryNamespacesResponse.check)
+        .then(({ query }) =>
+          Object.values(query.namespaces).map((namespace) => ({
+            ...namespace,
+            aliases: query.namespacealiases
+              .filter(({ id }) => id === namespace.id)
+              .map(({ alias }) => alias),
+          }))
+        );
+
+      // Don't cache failures
+      this.#namespaces.catch(() => this.#namespaces = undefined);
+    }
+
+    return this.#namespaces;
+  }
+
+  /**
+   * Normalises a title using the wiki's namespaces.
+   * @param defaultNamespace The namespace to use if the title doesn't have one, e.g. 6 for files
+   */
+  async title(title: string, defaultNamespace = 0): Promise<Title> {
+    return Title.parse(title, await this.namespaces(), defaultNamespace);
+  }
+
+  /**
+   * Returns the wiki object for another wiki in the same wiki farm, like another language of Wikipedia, from any URL on it (e.g. a link to one of its pages).
+   *
+   * Its API is assumed to be at the same path as this one's. It uses the same auth, transport and cache, and the same object is returned every time.
+   */
+  sibling(url: string | URL): Wiki {
+    const { protocol, host } = new URL(url, this.apiUrl);
+
+    const apiUrl = new URL(this.apiUrl);
+    apiUrl.protocol = protocol;
+    apiUrl.host = host;
+
+    return this.other(apiUrl);
+  }
+
+  /**
+   * Returns the wiki object for an [interwiki prefix](https://www.mediawiki.org/wiki/Manual:Interwiki), like `fr` or `wikt`, using the wiki's interwiki map.
+   *
+   * If the map says where the other wiki's API is, that's used; otherwise it's assumed to be a sibling of this one.
+   */
+  async interwiki(prefix: string): Promise<Wiki> {
+    const interwiki = (await this.interwikiMap()).get(prefix.toLowerCase());
+    if (typeof interwiki === "undefined") {
+      throw new Error(`There is no interwiki with the prefix ${prefix}`);
+    }
+
+    return typeof interwiki.api !== "undefined"
+      ? this.other(new URL(interwiki.api, this.apiUrl))
+      : this.sibling(interwiki.url);
+  }
+
+  /** Gets the wiki's interwiki map by prefix, which is only fetched once, however many interwikis are looked up at the same time. */
+  private interwikiMap() {
+    if (typeof this.#interwikiMap === "undefined") {
+      this.#interwikiMap = this.request({
+        api: "action",
+        params: { action: "query", meta: "siteinfo", siprop: "interwikimap" },
+        cache: { ttl: longTtl },
+      })
+        .then(QueryInterwikiMapResponse.check)
+        .then(({ query }) =>
+          new Map(
+            query.interwikimap.map((entry) => [entry.prefix, entry]),
+          )
+        );
+
+      // Don't cache failures
+      this.#interwikiMap.catch(() => this.#interwikiMap = undefined);
+    }
+
+    return this.#interwikiMap;
+  }
+
+  /** Returns the wiki object for another wiki's API, creating it the first time. */
+  private other(apiUrl: URL): Wiki {
+    if (apiUrl.href === this.apiUrl.href) return this;
+
+    let wiki = this.#siblings.get(apiUrl.href);
+    if (typeof wiki === "undefined") {
+      wiki = new Wiki(apiUrl, this.auth, this.transport);
+      wiki.cache = this.cache;
+      this.#siblings.set(apiUrl.href, wiki);
+    }
+
+    return wiki;
   }
 
   /**
@@ -304,7 +1047,7 @@ export class Wiki {
    * console.log(data.title)
    * ```
    */
-  page(title: string) {
+  page(title: string | Title) {
     return new AsyncPage(this, title);
   }
 
@@ -312,9 +1055,19 @@ export class Wiki {
    * Returns information about a file, including links to download the file in thumbnail, preview, and original formats.
    * @param title File title
    */
-  file(title: string) {
+  file(title: string | Title) {
+    // Files are in namespace 6, even if the title doesn't say so
+    const file = typeof title === "string"
+      ? this.title(title, 6)
+      : Promise.resolve(title);
+
     return AsyncProxy(
-      this.request({ path: `file/${title}` }).then(FileWithThumbnail.check),
+      file.then((title) =>
+        this.polyfilled
+          ? this.filePolyfill(title)
+          // The REST API doesn't want the namespace
+          : this.request({ path: `file/${titlePath(title.text)}` })
+      ).then(FileWithThumbnail.check),
     );
   }
 